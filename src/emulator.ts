@@ -0,0 +1 @@
+export { SaladCloudEmulator } from './transcription/node/emulator'
@@ -0,0 +1,348 @@
+import { CaptionError } from '../errors'
+import { TranscribeResponse, TranscriptOutput, TranscriptWord } from '../types'
+
+/**
+ * Caption generation options.
+ */
+export interface CaptionOptions {
+  /**
+   * The timestamps the captions are built from. Defaults to "sentence".
+   * Falls back to the other granularity when the requested timestamps are missing from the output.
+   */
+  granularity?: 'sentence' | 'word'
+  /**
+   * The maximum number of characters per caption line. Defaults to 42.
+   */
+  maxLineLength?: number
+  /**
+   * The maximum number of lines per caption cue. Defaults to 2.
+   */
+  maxLinesPerCue?: number
+  /**
+   * The maximum reading speed in characters per second. Cues that are read faster are extended into the gap before
+   * the next cue. Not enforced by default.
+   */
+  maxCharsPerSecond?: number
+  /**
+   * The maximum duration of a caption cue in seconds. Longer segments are split. Defaults to 7.
+   */
+  maxCueDurationInSeconds?: number
+  /**
+   * Set to "true" to merge consecutive segments of the same speaker into one cue while they fit the line limits.
+   * Set to "false" (default) to start a new cue for every segment.
+   */
+  mergeSegments?: boolean
+  /**
+   * The maximum gap in seconds between two segments that are merged. Defaults to 1.
+   */
+  maxMergeGapInSeconds?: number
+  /**
+   * Set to "true" to prefix cues with the diarization speaker label, or provide a function returning the prefix.
+   * Set to "false" (default) to omit speaker labels.
+   */
+  speakerPrefix?: boolean | ((speaker: string) => string)
+}
+
+/**
+ * TTML caption generation options.
+ */
+export interface TtmlCaptionOptions extends CaptionOptions {
+  /**
+   * The `xml:lang` of the document. Defaults to the language code of the transcription or "en".
+   */
+  language?: string
+}
+
+/**
+ * A single caption cue.
+ */
+export interface CaptionCue {
+  /** Start time of the cue in seconds. */
+  start: number
+  /** End time of the cue in seconds. */
+  end: number
+  speaker?: string
+  lines: string[]
+}
+
+interface CaptionToken {
+  text: string
+  start: number
+  end: number
+  speaker?: string
+  segmentStart: boolean
+}
+
+const defaultMaxLineLength = 42
+const defaultMaxLinesPerCue = 2
+const defaultMaxCueDurationInSeconds = 7
+const defaultMaxMergeGapInSeconds = 1
+
+const sentenceEndPattern = /[.!?…]["')\]]*$/
+
+/**
+ * Fills in missing word timings from the neighbouring words.
+ *
+ * @param words - The words to convert.
+ * @param fallbackStart - The start time used when no earlier timing is known.
+ * @param fallbackSpeaker - The speaker used when a word has no speaker label.
+ * @returns The words as tokens with complete timings.
+ */
+const wordsToTokens = (words: TranscriptWord[], fallbackStart: number, fallbackSpeaker?: string): CaptionToken[] => {
+  let previousEnd = fallbackStart
+  return words.map((word, index) => {
+    const start = word.start ?? previousEnd
+    const nextStart = words.slice(index + 1).find((nextWord) => nextWord.start !== undefined)?.start
+    const end = Math.max(start, word.end ?? nextStart ?? start)
+    previousEnd = end
+    return {
+      text: word.word.trim(),
+      start,
+      end,
+      speaker: word.speaker ?? fallbackSpeaker,
+      segmentStart: index === 0,
+    }
+  })
+}
+
+/**
+ * Splits the text of a segment without word timings into tokens, interpolating their timings by character count.
+ *
+ * @param text - The segment text.
+ * @param start - The segment start time in seconds.
+ * @param end - The segment end time in seconds.
+ * @param speaker - The segment speaker.
+ * @returns The tokens of the segment.
+ */
+const textToTokens = (text: string, start: number, end: number, speaker?: string): CaptionToken[] => {
+  const words = text.split(/\s+/).filter((word) => word.length > 0)
+  const totalLength = words.reduce((length, word) => length + word.length, 0)
+  const duration = Math.max(0, end - start)
+
+  let offset = 0
+  return words.map((word, index) => {
+    const tokenStart = start + (duration * offset) / totalLength
+    offset += word.length
+    return {
+      text: word,
+      start: tokenStart,
+      end: start + (duration * offset) / totalLength,
+      speaker,
+      segmentStart: index === 0,
+    }
+  })
+}
+
+/**
+ * Converts the timestamps of a transcript output into caption tokens.
+ *
+ * @param jobId - The transcription job ID, used in errors.
+ * @param output - The transcript output.
+ * @param granularity - The preferred timestamps.
+ * @returns The caption tokens.
+ */
+const getCaptionTokens = (
+  jobId: string,
+  output: TranscriptOutput,
+  granularity: 'sentence' | 'word',
+): CaptionToken[] => {
+  const sentences = output.sentenceLevelTimestamps ?? []
+  const words = output.wordSegments ?? []
+
+  if ((granularity === 'word' && words.length > 0) || (sentences.length === 0 && words.length > 0)) {
+    // Word segments carry no sentence boundaries, so a new segment starts after each sentence-ending word.
+    const tokens = wordsToTokens(words, 0)
+    tokens.forEach((token, index) => {
+      token.segmentStart = index === 0 || sentenceEndPattern.test(tokens[index - 1].text)
+    })
+    return tokens
+  }
+
+  if (sentences.length > 0) {
+    return sentences.flatMap((sentence) =>
+      sentence.words && sentence.words.length > 0
+        ? wordsToTokens(sentence.words, sentence.start, sentence.speaker)
+        : textToTokens(sentence.text, sentence.start, sentence.end, sentence.speaker),
+    )
+  }
+
+  throw new CaptionError(jobId, 'The transcription output has no sentence or word timestamps')
+}
+
+/**
+ * Wraps text into lines of at most the given length, breaking at whitespace.
+ *
+ * @param text - The text to wrap.
+ * @param maxLineLength - The maximum line length.
+ * @returns The wrapped lines.
+ */
+const wrapLines = (text: string, maxLineLength: number): string[] => {
+  const lines: string[] = []
+  let line = ''
+  for (const word of text.split(' ')) {
+    if (line.length === 0) {
+      line = word
+    } else if (line.length + 1 + word.length <= maxLineLength) {
+      line = `${line} ${word}`
+    } else {
+      lines.push(line)
+      line = word
+    }
+  }
+  if (line.length > 0) {
+    lines.push(line)
+  }
+  return lines
+}
+
+/**
+ * Builds caption cues from the sentence- or word-level timestamps of a transcription.
+ *
+ * @param response - The transcription response with a structured transcript output.
+ * @param options - Optional caption generation options.
+ * @returns The caption cues in chronological order.
+ */
+export const buildCaptionCues = (response: TranscribeResponse, options?: CaptionOptions): CaptionCue[] => {
+  const { output } = response
+  if (!output || !('text' in output)) {
+    throw new CaptionError(response.id, 'The transcription has no transcript output')
+  }
+
+  const maxLineLength = options?.maxLineLength ?? defaultMaxLineLength
+  const maxLinesPerCue = options?.maxLinesPerCue ?? defaultMaxLinesPerCue
+  const maxCueDuration = options?.maxCueDurationInSeconds ?? defaultMaxCueDurationInSeconds
+  const maxMergeGap = options?.maxMergeGapInSeconds ?? defaultMaxMergeGapInSeconds
+  const formatSpeaker =
+    typeof options?.speakerPrefix === 'function'
+      ? options.speakerPrefix
+      : options?.speakerPrefix
+        ? (speaker: string) => `${speaker}: `
+        : undefined
+
+  const getCueText = (words: string[], speaker?: string): string =>
+    `${speaker && formatSpeaker ? formatSpeaker(speaker) : ''}${words.join(' ')}`
+
+  const tokens = getCaptionTokens(response.id, output, options?.granularity ?? 'sentence')
+  const groups: Array<{ start: number; end: number; speaker?: string; words: string[] }> = []
+
+  for (const token of tokens) {
+    const current = groups[groups.length - 1]
+    const startsNewCue =
+      !current ||
+      token.speaker !== current.speaker ||
+      (token.segmentStart && !(options?.mergeSegments && token.start - current.end <= maxMergeGap)) ||
+      token.end - current.start > maxCueDuration ||
+      wrapLines(getCueText([...current.words, token.text], token.speaker), maxLineLength).length > maxLinesPerCue
+
+    if (startsNewCue) {
+      groups.push({ start: token.start, end: token.end, speaker: token.speaker, words: [token.text] })
+    } else {
+      current.end = Math.max(current.end, token.end)
+      current.words.push(token.text)
+    }
+  }
+
+  return groups.map((group, index) => {
+    const text = getCueText(group.words, group.speaker)
+    let end = group.end
+
+    // Extend cues that are read too fast, without overlapping the next cue.
+    if (options?.maxCharsPerSecond) {
+      const minEnd = group.start + text.length / options.maxCharsPerSecond
+      const nextStart = groups[index + 1]?.start ?? Infinity
+      end = Math.max(end, Math.min(minEnd, nextStart))
+    }
+
+    return {
+      start: group.start,
+      end,
+      speaker: group.speaker,
+      lines: wrapLines(text, maxLineLength),
+    }
+  })
+}
+
+/**
+ * Formats a time in seconds as a caption timestamp (HH:MM:SS.mmm).
+ *
+ * @param seconds - The time in seconds.
+ * @param millisecondsSeparator - The separator between seconds and milliseconds.
+ * @returns The formatted timestamp.
+ */
+const formatTimestamp = (seconds: number, millisecondsSeparator: string): string => {
+  const totalMilliseconds = Math.max(0, Math.round(seconds * 1000))
+  const hours = Math.floor(totalMilliseconds / 3600000)
+  const minutes = Math.floor((totalMilliseconds % 3600000) / 60000)
+  const wholeSeconds = Math.floor((totalMilliseconds % 60000) / 1000)
+  const milliseconds = totalMilliseconds % 1000
+  const pad = (value: number, length = 2) => value.toString().padStart(length, '0')
+  return `${pad(hours)}:${pad(minutes)}:${pad(wholeSeconds)}${millisecondsSeparator}${pad(milliseconds, 3)}`
+}
+
+/**
+ * Escapes the characters that have a special meaning in WebVTT and XML text.
+ *
+ * @param text - The text to escape.
+ * @returns The escaped text.
+ */
+const escapeMarkup = (text: string): string => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+
+/**
+ * Generates SubRip (SRT) captions from the timestamps of a transcription.
+ *
+ * @param response - The transcription response with a structured transcript output.
+ * @param options - Optional caption generation options.
+ * @returns The SRT captions.
+ */
+export const toSrt = (response: TranscribeResponse, options?: CaptionOptions): string =>
+  buildCaptionCues(response, options)
+    .map(
+      (cue, index) =>
+        `${index + 1}\n${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}\n${cue.lines.join('\n')}\n`,
+    )
+    .join('\n')
+
+/**
+ * Generates WebVTT captions from the timestamps of a transcription.
+ *
+ * @param response - The transcription response with a structured transcript output.
+ * @param options - Optional caption generation options.
+ * @returns The WebVTT captions.
+ */
+export const toWebVtt = (response: TranscribeResponse, options?: CaptionOptions): string =>
+  ['WEBVTT\n']
+    .concat(
+      buildCaptionCues(response, options).map(
+        (cue) =>
+          `${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}\n${cue.lines.map(escapeMarkup).join('\n')}\n`,
+      ),
+    )
+    .join('\n')
+
+/**
+ * Generates Timed Text Markup Language (TTML) captions from the timestamps of a transcription.
+ *
+ * @param response - The transcription response with a structured transcript output.
+ * @param options - Optional TTML caption generation options.
+ * @returns The TTML document.
+ */
+export const toTtml = (response: TranscribeResponse, options?: TtmlCaptionOptions): string => {
+  const language = options?.language ?? response.input.languageCode ?? 'en'
+  const paragraphs = buildCaptionCues(response, options).map(
+    (cue) =>
+      `      <p begin="${formatTimestamp(cue.start, '.')}" end="${formatTimestamp(cue.end, '.')}">` +
+      `${cue.lines.map(escapeMarkup).join('<br/>')}</p>`,
+  )
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<tt xmlns="http://www.w3.org/ns/ttml" xml:lang="${escapeMarkup(language).replace(/"/g, '&quot;')}">`,
+    '  <body>',
+    '    <div>',
+    ...paragraphs,
+    '    </div>',
+    '  </body>',
+    '</tt>',
+    '',
+  ].join('\n')
+}
@@ -1,4 +1,7 @@
 export const transcribeInferenceEndpointName = 'transcribe'
+export const defaultStorageBaseUrl = 'https://storage-api.salad.com'
+export const defaultListPageSize = 100
+export const defaultTranscribeManyConcurrency = 3
 
 export const oneSecondInMs = 1000
 export const oneMinuteInMs = 60000
@@ -7,3 +10,29 @@ export const oneDayInSeconds = 86400
 export const oneMbInBytes = 1024 * 1024
 export const maxFileSizeBytesForStorage = oneMbInBytes * 100
 export const filePartSizeBytesForStorage = oneMbInBytes * 80
+export const defaultUploadConcurrency = 3
+export const defaultUploadFileName = 'file'
+export const mediaHeaderSizeBytes = 4096
+
+export const defaultWaitForTimeoutMs = oneMinuteInMs * 3
+export const defaultWaitForIntervalMs = oneSecondInMs * 5
+export const defaultWaitForMaxIntervalMs = oneMinuteInMs
+
+export const defaultRetryMaxAttempts = 3
+export const defaultRetryInitialDelayMs = 500
+export const defaultRetryBackoffMultiplier = 2
+export const defaultRetryMaxDelayMs = oneSecondInMs * 30
+export const defaultRetryJitter = 0.2
+export const defaultRetryableStatuses = [408, 429, 500, 502, 503, 504]
+export const defaultRetryableErrorCodes = [
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ECONNABORTED',
+  'ETIMEDOUT',
+  'EPIPE',
+  'EAI_AGAIN',
+]
+// Only these failures guarantee that a request was not processed, so only they are retried for requests that must not
+// be repeated.
+export const nonIdempotentRetryableStatuses = [429]
+export const nonIdempotentRetryableErrorCodes = ['ECONNREFUSED', 'EAI_AGAIN']
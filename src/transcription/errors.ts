@@ -1,3 +1,5 @@
+import { ErrorContext, Status, ValidationIssue } from './types'
+
 /**
  * Base custom error class.
  */
@@ -29,11 +31,24 @@ export class UploadError extends CustomError {
   constructor(
     public fileName: string,
     public errorMessage: string,
+    public cause?: unknown,
   ) {
     super(`Upload of file "${fileName}" failed: ${errorMessage}`)
   }
 }
 
+/**
+ * Custom error type for local media files that are empty, too large or in an unsupported format.
+ */
+export class InvalidMediaError extends CustomError {
+  constructor(
+    public fileName: string,
+    public errorMessage: string,
+  ) {
+    super(`Invalid media file "${fileName}": ${errorMessage}`)
+  }
+}
+
 /**
  * Custom error type for file sign failures.
  */
@@ -41,7 +56,157 @@ export class SignFileError extends CustomError {
   constructor(
     public fileName: string,
     public errorMessage: string,
+    public cause?: unknown,
   ) {
     super(`Signing file "${fileName}" failed: ${errorMessage}`)
   }
 }
+
+/**
+ * Custom error type for transcription output file fetch failures.
+ */
+export class FetchOutputError extends CustomError {
+  constructor(
+    public jobId: string,
+    public errorMessage: string,
+    public cause?: unknown,
+  ) {
+    super(`Fetching output of transcription job ${jobId} failed: ${errorMessage}`)
+  }
+}
+
+/**
+ * Custom error type for caption generation failures.
+ */
+export class CaptionError extends CustomError {
+  constructor(
+    public jobId: string,
+    public errorMessage: string,
+  ) {
+    super(`Generating captions for transcription job ${jobId} failed: ${errorMessage}`)
+  }
+}
+
+/**
+ * Custom error type for timeouts while waiting for a transcription job.
+ */
+export class WaitForTimeoutError extends CustomError {
+  constructor(
+    public jobId: string,
+    public timeoutMs: number,
+    public lastStatus?: Status,
+  ) {
+    super(
+      `Timeout waiting for transcription job ${jobId} after ${timeoutMs} ms` +
+        (lastStatus ? ` (last status: ${lastStatus})` : ''),
+    )
+  }
+}
+
+/**
+ * Formats the request context of an error for its message.
+ *
+ * @param context - The request context.
+ * @returns The formatted context, or an empty string if there is none.
+ */
+const formatErrorContext = ({ operation, organizationName, jobId, status }: ErrorContext): string => {
+  const details = [
+    operation && `operation: ${operation}`,
+    organizationName && `organization: ${organizationName}`,
+    jobId && `job: ${jobId}`,
+    status !== undefined && `status: ${status}`,
+  ].filter(Boolean)
+  return details.length > 0 ? ` (${details.join(', ')})` : ''
+}
+
+/**
+ * Base error type for failed API operations, carrying the request context.
+ */
+export class ApiError extends CustomError {
+  public operation?: string
+  public organizationName?: string
+  public jobId?: string
+  public status?: number
+
+  constructor(
+    public errorMessage: string,
+    context: ErrorContext = {},
+    public cause?: unknown,
+  ) {
+    super(`${errorMessage}${formatErrorContext(context)}`)
+    this.operation = context.operation
+    this.organizationName = context.organizationName
+    this.jobId = context.jobId
+    this.status = context.status
+  }
+}
+
+/**
+ * Custom error type for rejected API keys (HTTP 401 and 403).
+ */
+export class AuthenticationError extends ApiError {
+  constructor(context: ErrorContext = {}, cause?: unknown) {
+    super('Authentication failed, check the API key and its access to the organization', context, cause)
+  }
+}
+
+/**
+ * Custom error type for missing organizations, jobs or files (HTTP 404).
+ */
+export class NotFoundError extends ApiError {
+  constructor(context: ErrorContext = {}, cause?: unknown) {
+    super('The requested resource was not found', context, cause)
+  }
+}
+
+/**
+ * Custom error type for rate-limited requests (HTTP 429).
+ */
+export class RateLimitError extends ApiError {
+  constructor(
+    context: ErrorContext = {},
+    public retryAfterMs?: number,
+    cause?: unknown,
+  ) {
+    super(
+      'The rate limit was exceeded' + (retryAfterMs !== undefined ? `, retry after ${retryAfterMs} ms` : ''),
+      context,
+      cause,
+    )
+  }
+}
+
+/**
+ * Custom error type for server failures (HTTP 5xx).
+ */
+export class ServerError extends ApiError {
+  constructor(context: ErrorContext = {}, cause?: unknown) {
+    super('The server failed to process the request', context, cause)
+  }
+}
+
+/**
+ * Custom error type for invalid requests and responses, with the validation failure of each field.
+ */
+export class ValidationError extends ApiError {
+  constructor(
+    public issues: ValidationIssue[],
+    context: ErrorContext = {},
+    cause?: unknown,
+  ) {
+    super(
+      'Validation failed: ' + issues.map(({ path, message }) => (path ? `${path}: ${message}` : message)).join('; '),
+      context,
+      cause,
+    )
+  }
+}
+
+/**
+ * Custom error type for operations cancelled through an AbortSignal.
+ */
+export class AbortError extends ApiError {
+  constructor(context: ErrorContext = {}) {
+    super('Operation aborted', context)
+  }
+}
@@ -0,0 +1,589 @@
+import {
+  defaultListPageSize,
+  defaultWaitForIntervalMs,
+  defaultWaitForMaxIntervalMs,
+  defaultWaitForTimeoutMs,
+  defaultStorageBaseUrl,
+  oneDayInSeconds,
+  transcribeInferenceEndpointName,
+} from './constants'
+import { AbortError, NotFoundError, TranscriptionError, WaitForTimeoutError } from './errors'
+import { StorageFiles } from './files'
+import { getScriptedJobStatus } from './scriptedJob'
+import { SaladCloudTranscriptionSdk } from './transcription'
+import {
+  EventAction,
+  FakeTranscriptionScript,
+  GetOptions,
+  ListAllOptions,
+  ListOptions,
+  ListTranscriptionsResponse,
+  RequestOptions,
+  Status,
+  StorageFile,
+  StorageFileMetadata,
+  TranscribeManyOptions,
+  TranscribeManyResult,
+  TranscribeOptions,
+  TranscribeRequestOptions,
+  TranscribeResponse,
+  TranscriptionSource,
+  TranscriptOutput,
+  WaitOptions,
+  WebhookEvent,
+  WebhookSecret,
+  WebhookVerificationOptions,
+} from './types'
+import { filterTranscriptions, getBackoffDelay, isRemoteFile, toApiError } from './utils'
+import { verifyWebhookEvent, Webhook } from './webhook'
+
+/**
+ * The public interface of the SDK. Type dependencies on the SDK with it, so tests can pass a
+ * `FakeSaladCloudTranscriptionSdk` instead.
+ */
+export type SaladCloudTranscriptionClient = Omit<
+  Pick<SaladCloudTranscriptionSdk, keyof SaladCloudTranscriptionSdk>,
+  'files'
+> & {
+  files: Pick<StorageFiles, keyof StorageFiles>
+}
+
+/**
+ * Options of the fake SDK.
+ */
+export interface FakeSaladCloudTranscriptionSdkOptions {
+  /**
+   * Optional The lifecycle of submitted jobs, or a function returning the lifecycle of each submission. Scripts queued
+   * with `queueScript` take precedence.
+   */
+  script?: FakeTranscriptionScript | ((submission: FakeTranscriptionSubmission) => FakeTranscriptionScript)
+  /** Optional The start time of the virtual clock. Defaults to the current time. */
+  startTime?: Date
+}
+
+/**
+ * A transcription submitted to the fake SDK.
+ */
+export interface FakeTranscriptionSubmission {
+  /** The ID of the created job. */
+  id: string
+  organizationName: string
+  source: TranscriptionSource
+  options?: TranscribeOptions
+  webhookUrl?: string
+  requestOptions?: TranscribeRequestOptions
+}
+
+/**
+ * The operations of the fake SDK that errors can be injected into.
+ */
+export type FakeTranscriptionOperation = 'transcribe' | 'get' | 'stop' | 'list' | 'waitFor'
+
+/**
+ * A job of the fake SDK.
+ */
+interface FakeJob {
+  job: TranscribeResponse
+  script: FakeTranscriptionScript
+  submittedAt: number
+  polls: number
+}
+
+const defaultFakeOutput: TranscriptOutput = {
+  text: 'This is a fake transcript.',
+  durationInSeconds: 2.5,
+  duration: 0.0007,
+  processingTime: 1.2,
+  sentenceLevelTimestamps: [{ text: 'This is a fake transcript.', start: 0, end: 2.5 }],
+}
+
+/**
+ * Returns the file name of an uploaded source, like the upload of the SDK names it.
+ *
+ * @param source - The source.
+ * @returns The file name.
+ */
+const getFakeUploadFileName = (source: TranscriptionSource): string => {
+  if (typeof source === 'string') {
+    return source.split(/[\\/]/).pop() || 'file'
+  } else if (typeof Blob !== 'undefined' && source instanceof Blob) {
+    return 'name' in source && typeof source.name === 'string' ? source.name : 'file'
+  } else if ('data' in source && source.fileName) {
+    return source.fileName
+  }
+  return 'file'
+}
+
+/**
+ * Returns the size of an uploaded source, or 0 if it is not known without reading the source.
+ *
+ * @param source - The source.
+ * @returns The size in bytes.
+ */
+const getFakeUploadSize = (source: TranscriptionSource): number => {
+  const data = typeof source === 'object' && 'data' in source ? source.data : source
+  if (typeof Blob !== 'undefined' && data instanceof Blob) {
+    return data.size
+  } else if (data instanceof ArrayBuffer || data instanceof Uint8Array) {
+    return data.byteLength
+  }
+  return typeof source === 'object' && 'data' in source ? (source.size ?? 0) : 0
+}
+
+/**
+ * The in-memory storage of the fake SDK. Signed URLs carry a fake token.
+ */
+export class FakeStorageFiles implements Pick<StorageFiles, keyof StorageFiles> {
+  private readonly stored = new Map<string, StorageFile & { organizationName: string; lastModified: Date }>()
+
+  constructor(private readonly now: () => Date) {}
+
+  async list(organizationName: string, _options?: RequestOptions): Promise<StorageFile[]> {
+    return [...this.stored.values()]
+      .filter((file) => file.organizationName === organizationName)
+      .map(({ storagePath, url, size }) => ({ storagePath, url, size }))
+  }
+
+  async delete(organizationName: string, storagePath: string, _options?: RequestOptions): Promise<void> {
+    this.getFile(organizationName, storagePath, 'files.delete')
+    this.stored.delete(`${organizationName}/${storagePath}`)
+  }
+
+  async sign(
+    organizationName: string,
+    storagePath: string,
+    expSeconds = oneDayInSeconds,
+    _options?: RequestOptions,
+  ): Promise<string> {
+    const { url } = this.getFile(organizationName, storagePath, 'files.sign')
+    const expiresAt = Math.floor(this.now().getTime() / 1000) + expSeconds
+    return `${url}?token=fake-token&exp=${expiresAt}`
+  }
+
+  async getMetadata(
+    organizationName: string,
+    storagePath: string,
+    _options?: RequestOptions,
+  ): Promise<StorageFileMetadata> {
+    const { size, lastModified } = this.getFile(organizationName, storagePath, 'files.getMetadata')
+    return { storagePath, size, contentType: 'application/octet-stream', lastModified }
+  }
+
+  /**
+   * Adds a file, as if it was uploaded.
+   *
+   * @param organizationName - The organization name.
+   * @param storagePath - The path of the file.
+   * @param size - The size of the file in bytes.
+   * @returns The URL of the file.
+   */
+  add(organizationName: string, storagePath: string, size: number): string {
+    const url = `${defaultStorageBaseUrl}/organizations/${organizationName}/files/${storagePath}`
+    this.stored.set(`${organizationName}/${storagePath}`, {
+      organizationName,
+      storagePath,
+      url,
+      size,
+      lastModified: this.now(),
+    })
+    return url
+  }
+
+  private getFile(organizationName: string, storagePath: string, operation: string) {
+    const file = this.stored.get(`${organizationName}/${storagePath}`)
+    if (!file) {
+      throw new NotFoundError({ operation, organizationName, status: 404 })
+    }
+    return file
+  }
+}
+
+/**
+ * An in-memory stand-in for `SaladCloudTranscriptionSdk`, to test code that uses the SDK without network access.
+ *
+ * Submitted jobs are kept in memory and follow a scriptable lifecycle. `waitFor` does not sleep: it advances the
+ * virtual clock by the polling interval instead, so waiting for a job, or timing out, returns immediately.
+ */
+export class FakeSaladCloudTranscriptionSdk implements SaladCloudTranscriptionClient {
+  /**
+   * The files uploaded by `transcribe`, kept in memory.
+   */
+  public readonly files: FakeStorageFiles
+  /**
+   * The transcriptions submitted so far, in the order of submission.
+   */
+  public readonly submissions: FakeTranscriptionSubmission[] = []
+  private readonly jobs = new Map<string, FakeJob>()
+  private readonly queuedScripts: FakeTranscriptionScript[] = []
+  private readonly injectedErrors = new Map<FakeTranscriptionOperation, unknown[]>()
+  private currentTime: number
+
+  /**
+   * @param options - Optional The default lifecycle of jobs and the start time of the virtual clock.
+   */
+  constructor(private readonly options: FakeSaladCloudTranscriptionSdkOptions = {}) {
+    this.currentTime = options.startTime?.getTime() ?? Date.now()
+    this.files = new FakeStorageFiles(() => this.now())
+  }
+
+  /**
+   * Returns the current time of the virtual clock.
+   */
+  now(): Date {
+    return new Date(this.currentTime)
+  }
+
+  /**
+   * Advances the virtual clock, e.g. to move jobs with a time-based lifecycle along.
+   *
+   * @param ms - The number of milliseconds to advance the clock by.
+   */
+  advanceTime(ms: number): void {
+    this.currentTime += ms
+  }
+
+  /**
+   * Queues the lifecycle of the next submitted job. Each queued script is used once, in order.
+   *
+   * @param script - The lifecycle.
+   * @returns The fake, for chaining.
+   */
+  queueScript(script: FakeTranscriptionScript): this {
+    this.queuedScripts.push(script)
+    return this
+  }
+
+  /**
+   * Makes the next calls of an operation fail with an error. Errors with an HTTP status, like the errors of the
+   * SaladCloud SDK, are converted to the typed errors the SDK throws.
+   *
+   * @param operation - The operation.
+   * @param error - The error to throw.
+   * @param times - Optional The number of calls that fail. Defaults to 1.
+   * @returns The fake, for chaining.
+   */
+  injectError(operation: FakeTranscriptionOperation, error: unknown, times = 1): this {
+    const errors = this.injectedErrors.get(operation) ?? []
+    errors.push(...Array.from({ length: times }, () => error))
+    this.injectedErrors.set(operation, errors)
+    return this
+  }
+
+  /**
+   * Returns a job as it was last reported, without polling it.
+   *
+   * @param transcriptionId - The job ID.
+   * @returns The job, or undefined if no such job was submitted.
+   */
+  getJob(transcriptionId: string): TranscribeResponse | undefined {
+    const fakeJob = this.jobs.get(transcriptionId)
+    return fakeJob && this.advance(fakeJob, false)
+  }
+
+  async transcribe(
+    organizationName: string,
+    source: TranscriptionSource,
+    options?: TranscribeOptions,
+    webhookUrl?: string,
+    signal?: AbortSignal,
+    requestOptions?: TranscribeRequestOptions,
+  ): Promise<TranscribeResponse> {
+    const context = { operation: 'transcribe', organizationName }
+    this.beginOperation('transcribe', context, signal)
+
+    const id = globalThis.crypto.randomUUID()
+    const submission: FakeTranscriptionSubmission = {
+      id,
+      organizationName,
+      source,
+      options,
+      webhookUrl,
+      requestOptions,
+    }
+    this.submissions.push(submission)
+
+    let url: string
+    let storagePath: string | undefined
+    if (typeof source === 'string' && isRemoteFile(source)) {
+      url = source
+    } else {
+      storagePath = `${globalThis.crypto.randomUUID()}-${getFakeUploadFileName(source)}`
+      this.files.add(organizationName, storagePath, getFakeUploadSize(source))
+      url = await this.files.sign(organizationName, storagePath)
+    }
+
+    const { script: defaultScript } = this.options
+    const script =
+      this.queuedScripts.shift() ?? (typeof defaultScript === 'function' ? defaultScript(submission) : defaultScript)
+    const { llmTranslation, srtTranslation, ...inputOptions } = options ?? {}
+    const time = this.now().toISOString()
+    const fakeJob: FakeJob = {
+      job: {
+        id,
+        input: {
+          url,
+          ...inputOptions,
+          llmTranslation: llmTranslation?.join(', '),
+          srtTranslation: srtTranslation?.join(', '),
+        },
+        inferenceEndpointName: transcribeInferenceEndpointName,
+        metadata: script?.metadata,
+        status: Status.Pending,
+        events: [{ action: EventAction.CREATED, time }],
+        organizationName,
+        createTime: time,
+        updateTime: time,
+      },
+      script: script ?? {},
+      submittedAt: this.currentTime,
+      polls: 0,
+    }
+    this.jobs.set(id, fakeJob)
+
+    const job = { ...fakeJob.job }
+    return storagePath ? { ...job, storagePath } : job
+  }
+
+  async resignSource(organizationName: string, storagePath: string, expSeconds?: number): Promise<string> {
+    return this.files.sign(organizationName, storagePath, expSeconds)
+  }
+
+  async transcribeMany(
+    organizationName: string,
+    sources: TranscriptionSource[],
+    options?: TranscribeManyOptions,
+    signal?: AbortSignal,
+  ): Promise<TranscribeManyResult[]> {
+    const { deleteUploadAfterCompletion, ...waitOptions } =
+      typeof options?.waitForCompletion === 'object' ? options.waitForCompletion : {}
+    const requestOptions: TranscribeRequestOptions = { retry: options?.retry, upload: options?.upload }
+
+    const results: TranscribeManyResult[] = []
+    for (const [index, source] of sources.entries()) {
+      let id: string | undefined
+      try {
+        let response = await this.transcribe(
+          organizationName,
+          source,
+          options?.options,
+          options?.webhookUrl,
+          signal,
+          requestOptions,
+        )
+        id = response.id
+        if (options?.waitForCompletion) {
+          response = await this.waitFor(organizationName, id, signal, {
+            retry: options.retry,
+            ...waitOptions,
+            deleteUploadAfterCompletion: deleteUploadAfterCompletion ? response : undefined,
+          })
+        }
+        results.push({ index, source, success: true, id, response })
+      } catch (error) {
+        results.push({ index, source, success: false, id, error })
+      }
+    }
+    return results
+  }
+
+  async get(organizationName: string, transcriptionId: string, options?: GetOptions): Promise<TranscribeResponse> {
+    const context = { operation: 'get', organizationName, jobId: transcriptionId }
+    this.beginOperation('get', context, options?.signal)
+
+    const job = this.poll(organizationName, transcriptionId, context)
+    if (job.output && 'error' in job.output) {
+      throw new TranscriptionError(job.id, job.output.error)
+    }
+    return job
+  }
+
+  async stop(organizationName: string, transcriptionId: string, _options?: RequestOptions): Promise<void> {
+    const context = { operation: 'stop', organizationName, jobId: transcriptionId }
+    this.beginOperation('stop', context)
+
+    const fakeJob = this.findJob(organizationName, transcriptionId, context)
+    const job = this.advance(fakeJob, false)
+    if (job.status !== Status.Succeeded && job.status !== Status.Failed) {
+      const time = this.now().toISOString()
+      fakeJob.job = {
+        ...job,
+        status: Status.Failed,
+        events: [...job.events, { action: EventAction.CANCELLED, time }],
+        updateTime: time,
+      }
+    }
+  }
+
+  async list(organizationName: string, options?: ListOptions): Promise<ListTranscriptionsResponse> {
+    const context = { operation: 'list', organizationName }
+    this.beginOperation('list', context)
+
+    const jobs = [...this.jobs.values()]
+      .filter(({ job }) => job.organizationName === organizationName)
+      .map((fakeJob) => this.advance(fakeJob, false))
+    const page = options?.page ?? 1
+    const items = options?.pageSize ? jobs.slice((page - 1) * options.pageSize, page * options.pageSize) : jobs
+
+    return {
+      items: options ? filterTranscriptions(items, options) : items,
+      hasMore: options?.pageSize ? items.length >= options.pageSize : undefined,
+    }
+  }
+
+  async *listAll(organizationName: string, options?: ListAllOptions): AsyncGenerator<TranscribeResponse> {
+    const pageSize = options?.pageSize ?? defaultListPageSize
+
+    for (let page = 1; ; page++) {
+      const { items, hasMore } = await this.list(organizationName, { ...options, page, pageSize })
+      yield* items
+      if (!hasMore) {
+        return
+      }
+    }
+  }
+
+  async processWebhookRequest(
+    payload: any,
+    base64Secret: string | WebhookSecret[],
+    webhookId: string,
+    webhookTimestamp: string,
+    webhookSignature: string,
+    options?: WebhookVerificationOptions,
+  ): Promise<WebhookEvent> {
+    const webhookHeaders = {
+      'webhook-id': webhookId,
+      'webhook-timestamp': webhookTimestamp,
+      'webhook-signature': webhookSignature,
+    }
+    try {
+      const webhook = new Webhook(base64Secret, { toleranceInSeconds: options?.toleranceInSeconds })
+      return await verifyWebhookEvent(webhook, payload, webhookHeaders, options?.replayStore)
+    } catch (error) {
+      throw toApiError(error, { operation: 'processWebhookRequest' })
+    }
+  }
+
+  async waitFor(
+    organizationName: string,
+    transcriptionId: string,
+    signal?: AbortSignal,
+    options?: WaitOptions,
+  ): Promise<TranscribeResponse> {
+    const context = { operation: 'waitFor', organizationName, jobId: transcriptionId }
+    const startTime = this.currentTime
+    const timeoutMs = options?.timeoutMs ?? defaultWaitForTimeoutMs
+    let lastStatus: Status | undefined
+
+    for (let attempt = 0; ; attempt++) {
+      this.beginOperation('waitFor', context, signal)
+      const job = this.poll(organizationName, transcriptionId, context)
+      lastStatus = job.status
+      options?.onProgress?.(job.status, job)
+
+      if (job.status === Status.Succeeded || job.status === Status.Failed) {
+        const { storagePath, deduplicated } = options?.deleteUploadAfterCompletion ?? {}
+        if (storagePath && !deduplicated) {
+          await this.files.delete(organizationName, storagePath).catch(() => undefined)
+        }
+        if (job.output && 'error' in job.output) {
+          throw new TranscriptionError(job.id, job.output.error)
+        }
+        return job
+      }
+
+      if (this.currentTime - startTime >= timeoutMs) {
+        throw new WaitForTimeoutError(transcriptionId, timeoutMs, lastStatus)
+      }
+      // The jitter is left out, so waiting is deterministic.
+      const delayMs = getBackoffDelay(
+        attempt,
+        options?.intervalMs ?? defaultWaitForIntervalMs,
+        options?.backoffMultiplier ?? 1,
+        options?.maxIntervalMs ?? defaultWaitForMaxIntervalMs,
+        0,
+      )
+      this.advanceTime(Math.max(1, Math.min(delayMs, startTime + timeoutMs - this.currentTime)))
+    }
+  }
+
+  /**
+   * Throws if the signal is aborted, or the next injected error of the operation.
+   */
+  private beginOperation(
+    operation: FakeTranscriptionOperation,
+    context: { operation: string; organizationName: string; jobId?: string },
+    signal?: AbortSignal,
+  ): void {
+    if (signal?.aborted) {
+      throw new AbortError(context)
+    }
+    const errors = this.injectedErrors.get(operation)
+    if (errors?.length) {
+      throw toApiError(errors.shift(), context)
+    }
+  }
+
+  private findJob(
+    organizationName: string,
+    transcriptionId: string,
+    context: { operation: string; organizationName: string; jobId?: string },
+  ): FakeJob {
+    const fakeJob = this.jobs.get(transcriptionId)
+    if (!fakeJob || fakeJob.job.organizationName !== organizationName) {
+      throw new NotFoundError({ ...context, status: 404 })
+    }
+    return fakeJob
+  }
+
+  private poll(
+    organizationName: string,
+    transcriptionId: string,
+    context: { operation: string; organizationName: string; jobId?: string },
+  ): TranscribeResponse {
+    return this.advance(this.findJob(organizationName, transcriptionId, context), true)
+  }
+
+  /**
+   * Moves a job along its lifecycle, and returns a copy of it.
+   *
+   * @param fakeJob - The job.
+   * @param isPoll - Whether the job is polled, which advances jobs with a poll-based lifecycle.
+   * @returns The job.
+   */
+  private advance(fakeJob: FakeJob, isPoll: boolean): TranscribeResponse {
+    const { job, script } = fakeJob
+    if (job.status === Status.Succeeded || job.status === Status.Failed) {
+      return { ...job }
+    }
+
+    if (isPoll) {
+      fakeJob.polls++
+    }
+    const status = getScriptedJobStatus(script, fakeJob.polls, this.currentTime - fakeJob.submittedAt)
+
+    if (status !== job.status) {
+      const time = this.now().toISOString()
+      // The status only moves forward, so the job is running or done now, and a job that is done has started.
+      const events = [...job.events]
+      if (job.status === Status.Pending) {
+        events.push({ action: EventAction.STARTED, time })
+      }
+      if (status !== Status.Running) {
+        events.push({ action: status === Status.Succeeded ? EventAction.SUCCEEDED : EventAction.FAILED, time })
+      }
+      fakeJob.job = {
+        ...job,
+        status,
+        events,
+        updateTime: time,
+        output:
+          status === Status.Succeeded
+            ? (script.output ?? defaultFakeOutput)
+            : status === Status.Failed
+              ? { error: script.error ?? 'Transcription failed', duration: 0 }
+              : undefined,
+      }
+    }
+    return { ...fakeJob.job }
+  }
+}
@@ -0,0 +1,133 @@
+import { AxiosInstance } from 'axios'
+import { oneDayInSeconds } from './constants'
+import { ListStorageFilesResponseSchema } from './schema'
+import { RequestOptions, RetryPolicy, StorageFile, StorageFileMetadata } from './types'
+import { getStoragePathFromUrl, resolveRetryPolicy, signFile, toApiError, withRetry } from './utils'
+
+/**
+ * Manages the files uploaded to SaladCloud storage, e.g. the local files uploaded for transcription.
+ * Storage paths are relative to the organization's storage, as recorded for uploads.
+ */
+export class StorageFiles {
+  constructor(
+    private axiosInstance: AxiosInstance,
+    private retryPolicy?: RetryPolicy,
+    private signedUrlExpirySeconds = oneDayInSeconds,
+  ) {}
+
+  /**
+   * Lists the files in the organization's storage.
+   *
+   * @param organizationName - The organization name.
+   * @param options - Optional per-call request options.
+   * @returns A promise that resolves to the files.
+   */
+  async list(organizationName: string, options?: RequestOptions): Promise<StorageFile[]> {
+    try {
+      const response = await withRetry(
+        () => this.axiosInstance.get(this.getFileUrl(organizationName)),
+        resolveRetryPolicy(this.retryPolicy, options?.retry),
+      )
+      const { files } = ListStorageFilesResponseSchema.parse(response.data)
+      return files.map(({ url, size }) => ({
+        storagePath: getStoragePathFromUrl(url, organizationName) ?? url,
+        url,
+        size,
+      }))
+    } catch (error) {
+      throw toApiError(error, { operation: 'files.list', organizationName })
+    }
+  }
+
+  /**
+   * Deletes a file from the organization's storage.
+   *
+   * @param organizationName - The organization name.
+   * @param storagePath - The path of the file.
+   * @param options - Optional per-call request options.
+   * @returns A promise that resolves to void when the file is deleted.
+   */
+  async delete(organizationName: string, storagePath: string, options?: RequestOptions): Promise<void> {
+    try {
+      await withRetry(
+        () => this.axiosInstance.delete(this.getFileUrl(organizationName, storagePath)),
+        resolveRetryPolicy(this.retryPolicy, options?.retry),
+      )
+    } catch (error) {
+      throw toApiError(error, { operation: 'files.delete', organizationName })
+    }
+  }
+
+  /**
+   * Creates a signed URL that allows downloading a file without the API key, e.g. to transcribe it again.
+   *
+   * @param organizationName - The organization name.
+   * @param storagePath - The path of the file.
+   * @param expSeconds - Optional The lifetime of the signed URL in seconds. Defaults to the configured
+   * `signedUrlExpirySeconds`, or one day.
+   * @param options - Optional per-call request options.
+   * @returns A promise that resolves to the signed URL.
+   */
+  async sign(
+    organizationName: string,
+    storagePath: string,
+    expSeconds = this.signedUrlExpirySeconds,
+    options?: RequestOptions,
+  ): Promise<string> {
+    try {
+      const { url } = await signFile(
+        this.axiosInstance,
+        `/organizations/${organizationName}/file_tokens/${storagePath}`,
+        storagePath,
+        undefined,
+        resolveRetryPolicy(this.retryPolicy, options?.retry),
+        expSeconds,
+      )
+      return url
+    } catch (error) {
+      throw toApiError(error, { operation: 'files.sign', organizationName })
+    }
+  }
+
+  /**
+   * Retrieves the metadata of a file without downloading it.
+   *
+   * @param organizationName - The organization name.
+   * @param storagePath - The path of the file.
+   * @param options - Optional per-call request options.
+   * @returns A promise that resolves to the file metadata.
+   */
+  async getMetadata(
+    organizationName: string,
+    storagePath: string,
+    options?: RequestOptions,
+  ): Promise<StorageFileMetadata> {
+    let response
+    try {
+      response = await withRetry(
+        () => this.axiosInstance.head(this.getFileUrl(organizationName, storagePath)),
+        resolveRetryPolicy(this.retryPolicy, options?.retry),
+      )
+    } catch (error) {
+      throw toApiError(error, { operation: 'files.getMetadata', organizationName })
+    }
+    const header = (name: string): string | undefined => {
+      const value = response.headers[name]
+      return value === undefined || value === null ? undefined : String(value)
+    }
+
+    const contentLength = header('content-length')
+    const lastModified = header('last-modified')
+    return {
+      storagePath,
+      size: contentLength === undefined ? undefined : Number(contentLength),
+      contentType: header('content-type'),
+      lastModified: lastModified === undefined ? undefined : new Date(lastModified),
+      etag: header('etag'),
+    }
+  }
+
+  private getFileUrl(organizationName: string, storagePath?: string): string {
+    return `/organizations/${organizationName}/files` + (storagePath ? `/${storagePath}` : '')
+  }
+}
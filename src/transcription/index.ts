@@ -1,2 +1,10 @@
+export * from './captions'
+export * from './errors'
+export * from './fake'
+export * from './files'
 export * from './transcription'
 export * from './types'
+export * from './uploadCache'
+export * from './webhook'
+export { JsonFileUploadCache, validateMediaFile } from './node'
+export { fetchOutput } from './utils'
@@ -0,0 +1,19 @@
+import fs from 'fs/promises'
+import path from 'node:path'
+
+// Numbers the temporary files, so concurrent writes of the same file in this process never share one.
+let temporaryFileCount = 0
+
+/**
+ * Writes a file atomically: the content is written to a temporary file that then replaces the file, so an interrupted
+ * write never leaves a truncated file behind. Missing parent directories are created.
+ *
+ * @param filePath - The file path.
+ * @param content - The content to write.
+ */
+export const writeFileAtomically = async (filePath: string, content: string): Promise<void> => {
+  await fs.mkdir(path.dirname(filePath), { recursive: true })
+  const temporaryPath = `${filePath}.${process.pid}.${++temporaryFileCount}.tmp`
+  await fs.writeFile(temporaryPath, content)
+  await fs.rename(temporaryPath, filePath)
+}
@@ -0,0 +1,120 @@
+import { createHash } from 'crypto'
+import fs from 'fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+import { UploadCheckpointSchema } from '../schema'
+import { UploadCheckpoint } from '../types'
+import { writeFileAtomically } from './atomicWrite'
+
+/**
+ * The file properties a checkpoint is only valid for.
+ */
+export type UploadCheckpointKey = Pick<
+  UploadCheckpoint,
+  'organizationName' | 'filePath' | 'fileSize' | 'mtimeMs' | 'partSizeBytes'
+>
+
+/**
+ * Returns the default checkpoint file path for a multipart upload of a file.
+ *
+ * The path is derived from the organization and the absolute file path, so an interrupted upload of the same file
+ * finds its checkpoint again after a restart.
+ *
+ * @param organizationName - The organization name.
+ * @param filePath - The absolute path of the file being uploaded.
+ * @returns The checkpoint file path in the temporary directory.
+ */
+export const getDefaultCheckpointPath = (organizationName: string, filePath: string): string => {
+  const hash = createHash('sha256').update(`${organizationName}\0${filePath}`).digest('hex')
+  return path.join(os.tmpdir(), 'salad-cloud-transcription-uploads', `${hash}.json`)
+}
+
+/**
+ * Loads the checkpoint of an interrupted multipart upload.
+ *
+ * Checkpoints that are unreadable, or whose file size, modification time, organization or part size no longer
+ * match, are deleted so the upload starts over.
+ *
+ * @param checkpointPath - The checkpoint file path.
+ * @param key - The properties of the file being uploaded.
+ * @returns A promise that resolves to the checkpoint, or undefined if the upload cannot be resumed.
+ */
+export const loadUploadCheckpoint = async (
+  checkpointPath: string,
+  key: UploadCheckpointKey,
+): Promise<UploadCheckpoint | undefined> => {
+  let content: string
+  try {
+    content = await fs.readFile(checkpointPath, 'utf8')
+  } catch {
+    return undefined
+  }
+
+  try {
+    const checkpoint = UploadCheckpointSchema.parse(JSON.parse(content))
+    if (
+      checkpoint.organizationName === key.organizationName &&
+      checkpoint.filePath === key.filePath &&
+      checkpoint.fileSize === key.fileSize &&
+      checkpoint.mtimeMs === key.mtimeMs &&
+      checkpoint.partSizeBytes === key.partSizeBytes
+    ) {
+      return checkpoint
+    }
+  } catch {
+    // Fall through and discard the invalid checkpoint.
+  }
+
+  await deleteUploadCheckpoint(checkpointPath)
+  return undefined
+}
+
+/**
+ * Saves the checkpoint of a multipart upload. The file is replaced atomically, so an interrupted write never leaves
+ * a truncated checkpoint behind.
+ *
+ * @param checkpointPath - The checkpoint file path.
+ * @param checkpoint - The checkpoint to save.
+ */
+export const saveUploadCheckpoint = (checkpointPath: string, checkpoint: UploadCheckpoint): Promise<void> =>
+  writeFileAtomically(checkpointPath, JSON.stringify(checkpoint))
+
+/**
+ * Deletes the checkpoint of a multipart upload, if it exists.
+ *
+ * @param checkpointPath - The checkpoint file path.
+ */
+export const deleteUploadCheckpoint = async (checkpointPath: string): Promise<void> => {
+  await fs.rm(checkpointPath, { force: true })
+}
+
+/**
+ * Creates a writer that records completed parts and saves the checkpoint after each one.
+ * Saves are serialized, so parts completing concurrently never overwrite each other's progress. Saving is best
+ * effort: a failed save only loses the progress it records, so it neither fails the upload nor blocks the following
+ * saves.
+ *
+ * @param checkpointPath - The checkpoint file path.
+ * @param checkpoint - The initial checkpoint.
+ * @returns The function recording a completed part, or only saving the checkpoint when called without a part.
+ * It resolves once the checkpoint is saved.
+ */
+export const createUploadCheckpointWriter = (
+  checkpointPath: string,
+  checkpoint: UploadCheckpoint,
+): ((part?: { etag: string; partNumber: number }) => Promise<void>) => {
+  const parts = new Map(checkpoint.parts.map((part) => [part.partNumber, part]))
+  let pending = Promise.resolve()
+
+  return (part) => {
+    if (part) {
+      parts.set(part.partNumber, part)
+    }
+    const snapshot: UploadCheckpoint = {
+      ...checkpoint,
+      parts: Array.from(parts.values()).sort((a, b) => a.partNumber - b.partNumber),
+    }
+    pending = pending.then(() => saveUploadCheckpoint(checkpointPath, snapshot)).catch(() => undefined)
+    return pending
+  }
+}
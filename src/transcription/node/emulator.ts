@@ -0,0 +1,500 @@
+import { randomUUID } from 'crypto'
+import http, { IncomingMessage, ServerResponse } from 'http'
+import { AddressInfo } from 'net'
+import { transcribeInferenceEndpointName } from '../constants'
+import { getScriptedJobStatus } from '../scriptedJob'
+import {
+  EmulatorFault,
+  EventAction,
+  FakeTranscriptionScript,
+  SaladCloudEmulatorOptions,
+  SaladCloudTranscriptionSdkConfig,
+  Status,
+} from '../types'
+
+/**
+ * The path of the SaladCloud API on the emulator, like on api.salad.com.
+ */
+const apiPath = '/api/public'
+
+/**
+ * A transcription job of the emulator, with the snake_case keys of the API.
+ */
+interface EmulatorJob {
+  job: Record<string, any>
+  script: FakeTranscriptionScript
+  submittedAt: number
+  polls: number
+}
+
+/**
+ * A request the emulator received.
+ */
+export interface EmulatorRequest {
+  method: string
+  path: string
+}
+
+/**
+ * An error response of the emulator, thrown by the request handlers.
+ */
+class EmulatorResponseError extends Error {
+  constructor(
+    public status: number,
+    message: string,
+  ) {
+    super(message)
+  }
+}
+
+const defaultEmulatorOutput = {
+  text: 'This is an emulated transcript.',
+  duration_in_seconds: 2.5,
+  duration: 0.0007,
+  processing_time: 1.2,
+  sentence_level_timestamps: [{ text: 'This is an emulated transcript.', start: 0, end: 2.5 }],
+}
+
+/**
+ * Converts the keys of an output to the snake_case keys of the API, recursively.
+ *
+ * @param value - The output, e.g. a `TranscriptOutput`.
+ * @returns The output as the API returns it.
+ */
+const toSnakeCaseKeys = (value: unknown): unknown => {
+  if (Array.isArray(value)) {
+    return value.map(toSnakeCaseKeys)
+  } else if (value && typeof value === 'object') {
+    return Object.keys(value).reduce<Record<string, unknown>>((result, key) => {
+      result[key.replace(/[A-Z]/g, (char) => `_${char.toLowerCase()}`)] = toSnakeCaseKeys((value as any)[key])
+      return result
+    }, {})
+  }
+  return value
+}
+
+/**
+ * Extracts the file of a `multipart/form-data` body, or returns any other body unchanged.
+ *
+ * @param body - The request body.
+ * @param contentType - The content type of the request.
+ * @returns The file content.
+ */
+const readUploadedFile = (body: Buffer, contentType = ''): Buffer => {
+  const boundary = contentType.match(/multipart\/form-data;.*boundary="?([^";]+)"?/i)?.[1]
+  if (!boundary) {
+    return body
+  }
+  const start = body.indexOf('\r\n\r\n', body.indexOf(`--${boundary}`))
+  const end = body.lastIndexOf(`\r\n--${boundary}`)
+  if (start === -1 || end < start) {
+    throw new EmulatorResponseError(400, 'Invalid multipart body')
+  }
+  return body.subarray(start + 4, end)
+}
+
+/**
+ * Parses a JSON request body.
+ *
+ * @param body - The request body.
+ * @returns The parsed body.
+ */
+const readJson = (body: Buffer): any => {
+  try {
+    return JSON.parse(body.toString() || '{}')
+  } catch {
+    throw new EmulatorResponseError(400, 'Invalid JSON body')
+  }
+}
+
+/**
+ * A local emulator of the SaladCloud storage API and the transcription inference endpoint, to test the SDK, and code
+ * using it, end to end without network access.
+ *
+ * The emulator implements file uploads, including multipart uploads, signed URLs and the job operations of the
+ * `transcribe` endpoint. Jobs follow a scriptable lifecycle, and faults add latency or error responses to matching
+ * requests. Pass `config` to the SDK to use the emulator:
+ *
+ * ```ts
+ * const emulator = await new SaladCloudEmulator().start()
+ * const sdk = new SaladCloudTranscriptionSdk({ apiKey: 'test-api-key', ...emulator.config })
+ * ```
+ */
+export class SaladCloudEmulator {
+  /**
+   * The requests received so far, in the order they arrived.
+   */
+  public readonly requests: EmulatorRequest[] = []
+  private server?: http.Server
+  private baseUrl?: string
+  private readonly files = new Map<string, { data: Buffer; lastModified: Date }>()
+  private readonly uploads = new Map<string, { fileKey: string; parts: Map<number, Buffer> }>()
+  private readonly tokens = new Map<string, { fileKey: string; expiresAt: number }>()
+  private readonly jobs = new Map<string, EmulatorJob>()
+  private faults: EmulatorFault[]
+
+  /**
+   * @param options - Optional The address, API key, job lifecycle and initial faults of the emulator.
+   */
+  constructor(private readonly options: SaladCloudEmulatorOptions = {}) {
+    this.faults = [...(options.faults ?? [])]
+  }
+
+  /**
+   * The base URL of the emulator. Only available once it is started.
+   */
+  get url(): string {
+    if (!this.baseUrl) {
+      throw new Error('The emulator is not started')
+    }
+    return this.baseUrl
+  }
+
+  /**
+   * The base URLs of the SDK config that point the SDK to the emulator.
+   */
+  get config(): Required<Pick<SaladCloudTranscriptionSdkConfig, 'apiBaseUrl' | 'storageBaseUrl'>> {
+    return { apiBaseUrl: this.url + apiPath, storageBaseUrl: this.url }
+  }
+
+  /**
+   * Starts listening.
+   *
+   * @returns A promise that resolves to the emulator once it is listening.
+   */
+  async start(): Promise<this> {
+    const server = http.createServer((request, response) => this.handleRequest(request, response))
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject)
+      server.listen(this.options.port ?? 0, this.options.host ?? '127.0.0.1', resolve)
+    })
+    const { address, port } = server.address() as AddressInfo
+    this.server = server
+    this.baseUrl = `http://${address.includes(':') ? `[${address}]` : address}:${port}`
+    return this
+  }
+
+  /**
+   * Stops listening and closes open connections.
+   *
+   * @returns A promise that resolves once the emulator is stopped.
+   */
+  async stop(): Promise<void> {
+    const server = this.server
+    this.server = undefined
+    this.baseUrl = undefined
+    if (server) {
+      server.closeAllConnections?.()
+      await new Promise<void>((resolve) => server.close(() => resolve()))
+    }
+  }
+
+  /**
+   * Injects a fault into the matching requests from now on.
+   *
+   * @param fault - The fault.
+   * @returns The emulator, for chaining.
+   */
+  injectFault(fault: EmulatorFault): this {
+    this.faults.push({ ...fault })
+    return this
+  }
+
+  /**
+   * Removes all injected faults.
+   */
+  clearFaults(): void {
+    this.faults = []
+  }
+
+  /**
+   * Returns the content of a stored file.
+   *
+   * @param organizationName - The organization name.
+   * @param storagePath - The path of the file.
+   * @returns The content, or undefined if there is no such file.
+   */
+  getFile(organizationName: string, storagePath: string): Buffer | undefined {
+    return this.files.get(`${organizationName}/${storagePath}`)?.data
+  }
+
+  /**
+   * Returns a job as the API last reported it, with its snake_case keys, without polling it.
+   *
+   * @param transcriptionId - The job ID.
+   * @returns The job, or undefined if there is no such job.
+   */
+  getJob(transcriptionId: string): Record<string, any> | undefined {
+    const emulatorJob = this.jobs.get(transcriptionId)
+    return emulatorJob && this.advance(emulatorJob, false)
+  }
+
+  private async handleRequest(request: IncomingMessage, response: ServerResponse): Promise<void> {
+    const url = new URL(request.url ?? '/', this.baseUrl)
+    const method = request.method ?? 'GET'
+    this.requests.push({ method, path: url.pathname })
+
+    try {
+      const body = await new Promise<Buffer>((resolve, reject) => {
+        const chunks: Buffer[] = []
+        request.on('data', (chunk: Buffer) => chunks.push(chunk))
+        request.on('end', () => resolve(Buffer.concat(chunks)))
+        request.on('error', reject)
+      })
+
+      const fault = this.takeFault(method, url.pathname)
+      if (fault?.latencyMs) {
+        await new Promise((resolve) => setTimeout(resolve, fault.latencyMs))
+      }
+      if (fault?.status) {
+        if (fault.retryAfterSeconds !== undefined) {
+          response.setHeader('Retry-After', String(fault.retryAfterSeconds))
+        }
+        throw new EmulatorResponseError(fault.status, 'Injected fault')
+      }
+
+      const isSignedDownload = method === 'GET' && url.searchParams.has('token')
+      if (!isSignedDownload && this.options.apiKey && request.headers['salad-api-key'] !== this.options.apiKey) {
+        throw new EmulatorResponseError(401, 'Invalid API key')
+      }
+
+      if (url.pathname.startsWith(`${apiPath}/`)) {
+        this.handleApiRequest(method, url, body, response)
+      } else {
+        this.handleStorageRequest(method, url, body, request.headers['content-type'], response)
+      }
+    } catch (error) {
+      const status = error instanceof EmulatorResponseError ? error.status : 500
+      const detail = error instanceof Error ? error.message : String(error)
+      this.sendJson(response, status, { type: 'about:blank', title: http.STATUS_CODES[status], status, detail })
+    }
+  }
+
+  /**
+   * Returns the first fault matching a request, and counts the request against its number of affected requests.
+   */
+  private takeFault(method: string, path: string): EmulatorFault | undefined {
+    const fault = this.faults.find(
+      (fault) =>
+        (!fault.method || fault.method.toUpperCase() === method) &&
+        (!fault.path || (typeof fault.path === 'string' ? path.includes(fault.path) : fault.path.test(path))),
+    )
+    if (fault?.times !== undefined && --fault.times <= 0) {
+      this.faults.splice(this.faults.indexOf(fault), 1)
+    }
+    return fault
+  }
+
+  private handleStorageRequest(
+    method: string,
+    url: URL,
+    body: Buffer,
+    contentType: string | undefined,
+    response: ServerResponse,
+  ): void {
+    const match = url.pathname.match(/^\/organizations\/([^/]+)\/(files|file_parts|file_tokens)(?:\/(.+))?$/)
+    if (!match) {
+      throw new EmulatorResponseError(404, 'Not found')
+    }
+    const [, organizationName, resource, storagePath] = match.map((part) => part && decodeURIComponent(part))
+    const fileKey = `${organizationName}/${storagePath}`
+    const fileUrl = `${this.url}/organizations/${match[1]}/files/${match[3]}`
+    const action = url.searchParams.get('action')
+
+    if (resource === 'files' && !storagePath && method === 'GET') {
+      const files = [...this.files]
+        .filter(([key]) => key.startsWith(`${organizationName}/`))
+        .map(([key, file]) => ({
+          url: `${this.url}/organizations/${match[1]}/files/${encodeURI(key.slice(organizationName.length + 1))}`,
+          size: file.data.length,
+        }))
+      this.sendJson(response, 200, { files })
+    } else if (resource === 'files' && storagePath && method === 'PUT' && action === 'mpu-create') {
+      const uploadId = randomUUID()
+      this.uploads.set(uploadId, { fileKey, parts: new Map() })
+      this.sendJson(response, 200, { uploadId })
+    } else if (resource === 'file_parts' && storagePath && method === 'PUT') {
+      const upload = this.getUpload(url.searchParams.get('uploadId'), fileKey)
+      const partNumber = Number(url.searchParams.get('partNumber'))
+      if (!Number.isInteger(partNumber) || partNumber < 1) {
+        throw new EmulatorResponseError(400, 'Invalid part number')
+      }
+      upload.parts.set(partNumber, body)
+      this.sendJson(response, 200, { etag: `etag-${partNumber}`, partNumber })
+    } else if (resource === 'files' && storagePath && method === 'PUT' && action === 'mpu-complete') {
+      const uploadId = url.searchParams.get('uploadId')
+      const upload = this.getUpload(uploadId, fileKey)
+      const parts: { etag: string; partNumber: number }[] = readJson(body).parts ?? []
+      const data = parts.map(({ etag, partNumber }) => {
+        const part = upload.parts.get(partNumber)
+        if (!part || etag !== `etag-${partNumber}`) {
+          throw new EmulatorResponseError(400, `Invalid part ${partNumber}`)
+        }
+        return part
+      })
+      this.files.set(fileKey, { data: Buffer.concat(data), lastModified: new Date() })
+      this.uploads.delete(uploadId!)
+      this.sendJson(response, 200, { url: fileUrl })
+    } else if (resource === 'files' && storagePath && method === 'PUT') {
+      this.files.set(fileKey, { data: readUploadedFile(body, contentType), lastModified: new Date() })
+      this.sendJson(response, 200, { url: fileUrl })
+    } else if (resource === 'files' && storagePath && (method === 'GET' || method === 'HEAD')) {
+      const file = this.files.get(fileKey)
+      const token = url.searchParams.get('token')
+      if (token !== null) {
+        const grant = this.tokens.get(token)
+        if (!grant || grant.fileKey !== fileKey || grant.expiresAt < Date.now()) {
+          throw new EmulatorResponseError(403, 'Invalid or expired token')
+        }
+      }
+      if (!file) {
+        throw new EmulatorResponseError(404, 'File not found')
+      }
+      response.writeHead(200, {
+        'Content-Type': 'application/octet-stream',
+        'Content-Length': file.data.length,
+        'Last-Modified': file.lastModified.toUTCString(),
+        ETag: `"${file.data.length}-${file.lastModified.getTime()}"`,
+      })
+      response.end(method === 'GET' ? file.data : undefined)
+    } else if (resource === 'files' && storagePath && method === 'DELETE') {
+      if (!this.files.delete(fileKey)) {
+        throw new EmulatorResponseError(404, 'File not found')
+      }
+      response.writeHead(204).end()
+    } else if (resource === 'file_tokens' && storagePath && method === 'POST') {
+      if (!this.files.has(fileKey)) {
+        throw new EmulatorResponseError(404, 'File not found')
+      }
+      const { exp } = readJson(body)
+      const token = randomUUID()
+      this.tokens.set(token, { fileKey, expiresAt: Date.now() + Number(exp ?? 86400) * 1000 })
+      this.sendJson(response, 200, { url: `${fileUrl}?token=${token}` })
+    } else {
+      throw new EmulatorResponseError(405, 'Method not allowed')
+    }
+  }
+
+  private getUpload(uploadId: string | null, fileKey: string) {
+    const upload = uploadId ? this.uploads.get(uploadId) : undefined
+    if (!upload || upload.fileKey !== fileKey) {
+      throw new EmulatorResponseError(404, 'Upload not found')
+    }
+    return upload
+  }
+
+  private handleApiRequest(method: string, url: URL, body: Buffer, response: ServerResponse): void {
+    const match = url.pathname
+      .slice(apiPath.length)
+      .match(/^\/organizations\/([^/]+)\/inference-endpoints\/([^/]+)\/jobs(?:\/([^/]+))?$/)
+    if (!match || match[2] !== transcribeInferenceEndpointName) {
+      throw new EmulatorResponseError(404, 'Not found')
+    }
+    const [, organizationName, inferenceEndpointName, jobId] = match
+
+    if (!jobId && method === 'POST') {
+      const { input, metadata, webhook, webhook_url: webhookUrl } = readJson(body)
+      if (!input || typeof input !== 'object' || typeof input.url !== 'string') {
+        throw new EmulatorResponseError(400, 'The job input requires a url')
+      }
+      const { script } = this.options
+      const time = new Date().toISOString()
+      const emulatorJob: EmulatorJob = {
+        job: {
+          id: randomUUID(),
+          input,
+          inference_endpoint_name: inferenceEndpointName,
+          ...(metadata !== undefined ? { metadata } : {}),
+          ...(webhook !== undefined ? { webhook } : {}),
+          ...(webhookUrl !== undefined ? { webhook_url: webhookUrl } : {}),
+          status: Status.Pending,
+          events: [{ action: EventAction.CREATED, time }],
+          organization_name: organizationName,
+          create_time: time,
+          update_time: time,
+        },
+        script: (typeof script === 'function' ? script(input) : script) ?? {},
+        submittedAt: Date.now(),
+        polls: 0,
+      }
+      this.jobs.set(emulatorJob.job.id, emulatorJob)
+      this.sendJson(response, 201, emulatorJob.job)
+    } else if (!jobId && method === 'GET') {
+      const page = Number(url.searchParams.get('page') ?? 1)
+      const pageSize = Number(url.searchParams.get('page_size') ?? 100)
+      const jobs = [...this.jobs.values()]
+        .filter(({ job }) => job.organization_name === organizationName)
+        .map((emulatorJob) => this.advance(emulatorJob, false))
+      this.sendJson(response, 200, {
+        items: jobs.slice((page - 1) * pageSize, page * pageSize),
+        page,
+        page_size: pageSize,
+        total_size: jobs.length,
+      })
+    } else if (jobId && (method === 'GET' || method === 'DELETE')) {
+      const emulatorJob = this.jobs.get(jobId)
+      if (!emulatorJob || emulatorJob.job.organization_name !== organizationName) {
+        throw new EmulatorResponseError(404, 'Job not found')
+      }
+      const job = this.advance(emulatorJob, method === 'GET')
+      if (method === 'GET') {
+        this.sendJson(response, 200, job)
+        return
+      }
+      if (job.status !== Status.Succeeded && job.status !== Status.Failed) {
+        const time = new Date().toISOString()
+        emulatorJob.job = {
+          ...job,
+          status: Status.Failed,
+          events: [...job.events, { action: EventAction.CANCELLED, time }],
+          update_time: time,
+        }
+      }
+      response.writeHead(202).end()
+    } else {
+      throw new EmulatorResponseError(405, 'Method not allowed')
+    }
+  }
+
+  /**
+   * Moves a job along its lifecycle, and returns a copy of it.
+   *
+   * @param emulatorJob - The job.
+   * @param isPoll - Whether the job is polled, which advances jobs with a poll-based lifecycle.
+   * @returns The job.
+   */
+  private advance(emulatorJob: EmulatorJob, isPoll: boolean): Record<string, any> {
+    const { job, script } = emulatorJob
+    if (job.status === Status.Succeeded || job.status === Status.Failed) {
+      return { ...job }
+    }
+
+    if (isPoll) {
+      emulatorJob.polls++
+    }
+    const status = getScriptedJobStatus(script, emulatorJob.polls, Date.now() - emulatorJob.submittedAt)
+    if (status !== job.status) {
+      const time = new Date().toISOString()
+      // The status only moves forward, so the job is running or done now, and a job that is done has started.
+      const events = [...job.events]
+      if (job.status === Status.Pending) {
+        events.push({ action: EventAction.STARTED, time })
+      }
+      let output: unknown
+      if (status === Status.Succeeded) {
+        events.push({ action: EventAction.SUCCEEDED, time })
+        output = script.output ? toSnakeCaseKeys(script.output) : defaultEmulatorOutput
+      } else if (status === Status.Failed) {
+        events.push({ action: EventAction.FAILED, time })
+        output = { error: script.error ?? 'Transcription failed', duration: 0 }
+      }
+      emulatorJob.job = { ...job, status, events, ...(output !== undefined ? { output } : {}), update_time: time }
+    }
+    return { ...emulatorJob.job }
+  }
+
+  private sendJson(response: ServerResponse, status: number, body: unknown): void {
+    response.writeHead(status, { 'Content-Type': 'application/json' })
+    response.end(JSON.stringify(body))
+  }
+}
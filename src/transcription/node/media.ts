@@ -0,0 +1,138 @@
+import fs from 'fs/promises'
+import path from 'node:path'
+import { mediaHeaderSizeBytes } from '../constants'
+import { InvalidMediaError } from '../errors'
+import { MediaContainer, MediaFileInfo, MediaValidationOptions } from '../types'
+
+/**
+ * Returns whether the bytes at the given offset match an ASCII signature.
+ *
+ * @param header - The bytes to check.
+ * @param offset - The offset of the signature.
+ * @param signature - The ASCII signature.
+ * @returns True if the bytes match.
+ */
+const hasSignature = (header: Uint8Array, offset: number, signature: string): boolean =>
+  header.length >= offset + signature.length &&
+  Array.from(signature).every((char, index) => header[offset + index] === char.charCodeAt(0))
+
+/**
+ * Returns the size of an ID3v2 tag at the start of the header, including its 10-byte header.
+ *
+ * @param header - The first bytes of the file.
+ * @returns The tag size, or 0 if there is no ID3v2 tag.
+ */
+const getId3TagSize = (header: Uint8Array): number => {
+  if (!hasSignature(header, 0, 'ID3') || header.length < 10) {
+    return 0
+  }
+  // The tag size is a 28-bit "synchsafe" integer, followed by an optional 10-byte footer.
+  const size = ((header[6] & 0x7f) << 21) | ((header[7] & 0x7f) << 14) | ((header[8] & 0x7f) << 7) | (header[9] & 0x7f)
+  const footerSize = header[5] & 0x10 ? 10 : 0
+  return 10 + size + footerSize
+}
+
+/**
+ * Returns the container of an MPEG audio or AAC (ADTS) frame at the start of the header.
+ *
+ * @param header - The first bytes of the file, or the bytes after an ID3v2 tag.
+ * @returns The container, or undefined if the header does not start with a frame.
+ */
+const getAudioFrameContainer = (header: Uint8Array): MediaContainer | undefined => {
+  if (header.length < 2 || header[0] !== 0xff || (header[1] & 0xe0) !== 0xe0) {
+    return undefined
+  }
+  // Both start with a frame sync; the layer bits are 00 for AAC (ADTS), and MPEG audio uses the other layers.
+  return (header[1] & 0x06) === 0 ? MediaContainer.Aac : MediaContainer.Mp3
+}
+
+/**
+ * Detects the media container from the first bytes of a file.
+ *
+ * @param header - The first bytes of the file. When the file starts with an ID3v2 tag, the bytes after the tag.
+ * @returns The media container, or undefined if the format is not supported.
+ */
+export const detectMediaContainer = (header: Uint8Array): MediaContainer | undefined => {
+  if (hasSignature(header, 0, 'RIFF') && hasSignature(header, 8, 'WAVE')) {
+    return MediaContainer.Wav
+  }
+  if (hasSignature(header, 0, 'RIFF') && hasSignature(header, 8, 'AVI ')) {
+    return MediaContainer.Avi
+  }
+  if (hasSignature(header, 0, 'FORM') && (hasSignature(header, 8, 'AIFF') || hasSignature(header, 8, 'AIFC'))) {
+    return MediaContainer.Aiff
+  }
+  // The ASF header object GUID, 75B22630-668E-11CF-A6D9-00AA0062CE6C, in its byte order.
+  if (hasSignature(header, 0, '\x30\x26\xb2\x75\x8e\x66\xcf\x11\xa6\xd9\x00\xaa\x00\x62\xce\x6c')) {
+    return MediaContainer.Asf
+  }
+  if (hasSignature(header, 0, 'fLaC')) {
+    return MediaContainer.Flac
+  }
+  if (hasSignature(header, 0, 'OggS')) {
+    return MediaContainer.Ogg
+  }
+  if (hasSignature(header, 4, 'ftyp')) {
+    return MediaContainer.Mp4
+  }
+  if (hasSignature(header, 0, '\x1a\x45\xdf\xa3')) {
+    // WebM is a Matroska profile, told apart by the DocType of the EBML header.
+    const docType = Buffer.from(header).toString('latin1')
+    return docType.includes('webm') ? MediaContainer.WebM : MediaContainer.Mkv
+  }
+  return getAudioFrameContainer(header)
+}
+
+/**
+ * Validates a local media file before it is uploaded: the file must exist, must not be empty or larger than the
+ * maximum size, and its first bytes must match a known container (wav, mp3, aac, flac, ogg, m4a/mp4, webm, mkv, aiff,
+ * wma/asf or avi).
+ *
+ * @param filePath - The path of the file.
+ * @param options - Optional validation options.
+ * @returns A promise that resolves to the file size and detected container.
+ * @throws InvalidMediaError if the file is missing, empty, too large or in an unsupported format.
+ */
+export const validateMediaFile = async (filePath: string, options?: MediaValidationOptions): Promise<MediaFileInfo> => {
+  const absolutePath = path.resolve(filePath)
+  const fileName = path.basename(absolutePath)
+
+  let fileHandle: fs.FileHandle
+  try {
+    fileHandle = await fs.open(absolutePath, 'r')
+  } catch (error: any) {
+    throw new InvalidMediaError(fileName, error.code === 'ENOENT' ? 'File not found' : error.message)
+  }
+
+  try {
+    const { size } = await fileHandle.stat()
+    if (size === 0) {
+      throw new InvalidMediaError(fileName, 'The file is empty')
+    }
+    if (options?.maxFileSizeBytes !== undefined && size > options.maxFileSizeBytes) {
+      throw new InvalidMediaError(
+        fileName,
+        `The file size of ${size} bytes exceeds the maximum of ${options.maxFileSizeBytes} bytes`,
+      )
+    }
+
+    const header = Buffer.alloc(Math.min(size, mediaHeaderSizeBytes))
+    const { bytesRead } = await fileHandle.read(header, 0, header.length, 0)
+    let container = detectMediaContainer(header.subarray(0, bytesRead))
+
+    // Audio files may start with an ID3v2 tag, which can be larger than the header, so the bytes after it are read.
+    const id3TagSize = getId3TagSize(header)
+    if (!container && id3TagSize > 0) {
+      const afterTag = Buffer.alloc(Math.max(0, Math.min(size - id3TagSize, mediaHeaderSizeBytes)))
+      const { bytesRead: afterTagBytesRead } = await fileHandle.read(afterTag, 0, afterTag.length, id3TagSize)
+      container = detectMediaContainer(afterTag.subarray(0, afterTagBytesRead))
+    }
+
+    if (!container) {
+      throw new InvalidMediaError(fileName, 'The file format is not supported')
+    }
+    return { filePath: absolutePath, size, container }
+  } finally {
+    await fileHandle.close()
+  }
+}
@@ -0,0 +1,58 @@
+import fs from 'fs/promises'
+import { UploadCache } from '../types'
+import { writeFileAtomically } from './atomicWrite'
+
+/**
+ * An upload cache that persists the storage paths in a JSON file, so they survive restarts.
+ * The file is replaced atomically, and writes of the same cache instance are serialized. Saving is best effort, like
+ * saving upload checkpoints: a failed save only costs uploading the file again, so it neither fails the upload nor
+ * blocks the following saves.
+ */
+export class JsonFileUploadCache implements UploadCache {
+  private storagePaths?: Promise<Map<string, string>>
+  private pending = Promise.resolve()
+
+  constructor(private filePath: string) {}
+
+  async get(hash: string): Promise<string | undefined> {
+    return (await this.load()).get(hash)
+  }
+
+  async set(hash: string, storagePath: string): Promise<void> {
+    const storagePaths = await this.load()
+    storagePaths.set(hash, storagePath)
+    return this.save(storagePaths)
+  }
+
+  async delete(hash: string): Promise<void> {
+    const storagePaths = await this.load()
+    if (storagePaths.delete(hash)) {
+      return this.save(storagePaths)
+    }
+  }
+
+  /**
+   * Loads the cache file once. A missing or unreadable file is treated as an empty cache.
+   */
+  private load(): Promise<Map<string, string>> {
+    this.storagePaths ??= fs
+      .readFile(this.filePath, 'utf8')
+      .then((content) => {
+        const entries = JSON.parse(content)
+        return new Map(
+          Object.entries(entries).filter((entry): entry is [string, string] => typeof entry[1] === 'string'),
+        )
+      })
+      .catch(() => new Map<string, string>())
+    return this.storagePaths
+  }
+
+  private save(storagePaths: Map<string, string>): Promise<void> {
+    const entries: Record<string, string> = {}
+    storagePaths.forEach((storagePath, hash) => (entries[hash] = storagePath))
+    const content = JSON.stringify(entries, null, 2)
+
+    this.pending = this.pending.then(() => writeFileAtomically(this.filePath, content)).catch(() => undefined)
+    return this.pending
+  }
+}
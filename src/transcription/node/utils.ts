@@ -1,13 +1,47 @@
-import { AxiosInstance } from 'axios'
-import { randomUUID } from 'crypto'
+import { AxiosInstance, AxiosProgressEvent } from 'axios'
+import { createHash, randomUUID } from 'crypto'
 import FormData from 'form-data'
 import fs from 'fs/promises'
 import { createReadStream, existsSync } from 'node:fs'
 import path from 'node:path'
 import { fileURLToPath } from 'node:url'
-import { filePartSizeBytesForStorage, maxFileSizeBytesForStorage, oneDayInSeconds } from '../constants'
-import { SignFileError, UploadError } from '../errors'
-import { Semaphore } from './semaphore'
+import { defaultUploadConcurrency, filePartSizeBytesForStorage, maxFileSizeBytesForStorage } from '../constants'
+import { AbortError, UploadError } from '../errors'
+import { UploadOptionsSchema } from '../schema'
+import {
+  RetryPolicy,
+  TranscriptionSource,
+  UploadCache,
+  UploadCheckpoint,
+  UploadOptions,
+  UploadedSource,
+  UploadPhase,
+  UploadProgress,
+} from '../types'
+import {
+  completeUpload,
+  createUpload,
+  createUploadProgressReporter,
+  getErrorStatus,
+  getTranscriptionDataSource,
+  mapWithConcurrency,
+  resolveRetryPolicy,
+  signFile,
+  storageFileExists,
+  uploadPart,
+  withRetry,
+} from '../utils'
+import {
+  createUploadCheckpointWriter,
+  deleteUploadCheckpoint,
+  getDefaultCheckpointPath,
+  loadUploadCheckpoint,
+} from './checkpoint'
+import { validateMediaFile } from './media'
+
+export { completeUpload, createUpload, signFile, uploadPart } from '../utils'
+export { validateMediaFile } from './media'
+export { JsonFileUploadCache } from './uploadCache'
 
 interface UploadFileResponse {
   url: string
@@ -91,6 +125,9 @@ export const createFormData = async (fileSource: string): Promise<FormData> => {
  * @param axiosInstance - The axios instance configured for API requests.
  * @param formData - The FormData instance containing the file.
  * @param url - The upload URL.
+ * @param fileName - The file name.
+ * @param signal - Optional An AbortSignal to cancel the operation.
+ * @param onUploadProgress - Optional Called with the number of bytes sent so far.
  * @returns A promise that resolves to the upload file response.
  */
 export const uploadFile = async (
@@ -98,123 +135,39 @@ export const uploadFile = async (
   formData: FormData,
   url: string,
   fileName: string,
+  signal?: AbortSignal,
+  onUploadProgress?: (bytesSent: number) => void,
 ): Promise<UploadFileResponse> => {
   const headers = {
     ...formData.getHeaders(),
   }
 
   try {
-    const response = await axiosInstance.put(url, formData, { headers })
-    return response.data
-  } catch (error: any) {
-    throw new UploadError(fileName, error.message)
-  }
-}
-
-/**
- * Signs a file.
- *
- * @param axiosInstance - The axios instance configured for API requests.
- * @param url - The sign file endpoint URL.
- * @returns A promise that resolves to the signed file response.
- */
-export const signFile = async (
-  axiosInstance: AxiosInstance,
-  url: string,
-  fileName: string,
-): Promise<UploadFileResponse> => {
-  const requestBody = {
-    method: 'GET',
-    exp: oneDayInSeconds,
-  }
-
-  try {
-    const response = await axiosInstance.post(url, requestBody)
+    const response = await axiosInstance.put(url, formData, {
+      headers,
+      signal: signal,
+      ...(onUploadProgress && { onUploadProgress: (event: AxiosProgressEvent) => onUploadProgress(event.loaded) }),
+    })
     return response.data
   } catch (error: any) {
-    throw new SignFileError(fileName, error.message)
+    throw new UploadError(fileName, error.message, error)
   }
 }
 
-/**
- * Initiates a multipart upload.
- * @param axiosInstance - The Axios instance for making HTTP requests.
- * @param url - The upload URL.
- * @param signal - Optional An AbortSignal to cancel the operation.
- * @returns The uploadId.
- */
-export const createUpload = async (
-  axiosInstance: AxiosInstance,
-  url: string,
-  signal?: AbortSignal,
-): Promise<string> => {
-  const response = await axiosInstance.put(url, null, { signal: signal })
-  const { uploadId } = response.data
-  return uploadId
-}
-
-/**
- * Uploads a single part (chunk) of the file.
- * @param axiosInstance - The Axios instance for making HTTP requests.
- * @param url - The upload URL.
- * @param uploadId - The ID of the current multipart upload session.
- * @param partNumber - The sequential part number.
- * @param part - The chunk (Buffer) to be uploaded.
- * @param signal - Optional An AbortSignal to cancel the operation.
- * @returns The response data for this part, which should contain at least an etag and partNumber.
- */
-export const uploadPart = async (
-  axiosInstance: AxiosInstance,
-  url: string,
-  uploadId: string,
-  partNumber: number,
-  part: Buffer,
-  signal?: AbortSignal,
-): Promise<{ etag: string; partNumber: number }> => {
-  const partUrl = `${url}?uploadId=${uploadId}&partNumber=${partNumber}`
-  const response = await axiosInstance.put(partUrl, part, {
-    headers: {
-      'Content-Type': 'application/octet-stream',
-    },
-    signal: signal,
-  })
-  return response.data
-}
-
-/**
- * Completes the multipart upload to combine all parts.
- * @param axiosInstance - The Axios instance for making HTTP requests.
- * @param url - The upload URL.
- * @param uploadId - The ID of the current multipart upload session.
- * @param parts - Array of part information objects (each contains etag and partNumber).
- * @param signal - Optional An AbortSignal to cancel the operation.
- * @returns Response to the complete upload request.
- */
-export const completeUpload = async (
-  axiosInstance: AxiosInstance,
-  url: string,
-  uploadId: string,
-  parts: { etag: string; partNumber: number }[],
-  signal?: AbortSignal,
-): Promise<any> => {
-  const completeUrl = `${url}?action=mpu-complete&uploadId=${uploadId}`
-  const response = await axiosInstance.put(completeUrl, JSON.stringify({ parts }), {
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    signal: signal,
-  })
-  return response
-}
-
 /**
  * Reads a file in chunks and processes each chunk with a provided callback function.
+ *
+ * Up to `concurrency` chunks are read and processed at the same time. A chunk is only read once a slot is free, so at
+ * most `concurrency` chunk buffers are held in memory.
+ *
  * @param filePath - The full path of the file to be read.
  * @param fileSize - The total size of the file in bytes.
  * @param maxChunkSizeBytes - The maximum size for each chunk.
  * @param eachChunk - Async callback that processes each chunk; should return an object containing etag and partNumber.
  * @param signal - Optional An AbortSignal to cancel the operation.
- * @returns A promise that resolves to an array of results from processing each chunk.
+ * @param concurrency - Optional The maximum number of chunks processed at the same time. Defaults to 1.
+ * @param skipChunk - Optional Returns the result of a chunk that was already processed, so it is not read again.
+ * @returns A promise that resolves to an array of results from processing each chunk, in chunk order.
  */
 export const readFileInChunks = async (
   filePath: string,
@@ -222,6 +175,8 @@ export const readFileInChunks = async (
   maxChunkSizeBytes: number,
   eachChunk: (chunkNumber: number, chunk: Buffer) => Promise<{ etag: string; partNumber: number }>,
   signal?: AbortSignal,
+  concurrency = 1,
+  skipChunk?: (chunkNumber: number) => { etag: string; partNumber: number } | undefined,
 ): Promise<{ etag: string; partNumber: number }[]> => {
   let fileHandle: fs.FileHandle
   try {
@@ -233,31 +188,34 @@ export const readFileInChunks = async (
   const numChunks = Math.ceil(fileSize / maxChunkSizeBytes)
   const realChunkSize = Math.ceil(fileSize / numChunks)
 
-  let bytesRead = 0
-  let chunkNumber = 1
-  const allChunks: { etag: string; partNumber: number }[] = []
-
-  while (chunkNumber <= numChunks) {
-    if (signal?.aborted) {
-      throw new Error('Operation aborted')
-    }
-    const buffer = Buffer.alloc(realChunkSize)
-    const { bytesRead: bytesJustRead } = await fileHandle.read(buffer, 0, realChunkSize, bytesRead)
-    bytesRead += bytesJustRead
-    const chunk = await eachChunk(chunkNumber, buffer)
-    allChunks.push(chunk)
-    chunkNumber++
+  try {
+    return await mapWithConcurrency(
+      numChunks,
+      concurrency,
+      async (index) => {
+        const chunkNumber = index + 1
+        const skippedChunk = skipChunk?.(chunkNumber)
+        if (skippedChunk) {
+          return skippedChunk
+        }
+
+        const position = index * realChunkSize
+        const buffer = Buffer.alloc(Math.min(realChunkSize, fileSize - position))
+        const { bytesRead } = await fileHandle.read(buffer, 0, buffer.length, position)
+        return eachChunk(chunkNumber, buffer.subarray(0, bytesRead))
+      },
+      signal,
+    )
+  } finally {
+    await fileHandle.close()
   }
-
-  await fileHandle.close()
-  return allChunks
 }
 
 /**
  * Orchestrates the multipart file upload process:
- * 1. Initiates the upload session.
- * 2. Reads the file in chunks and uploads each part.
- * 3. Completes the upload once all parts are processed.
+ * 1. Initiates the upload session, or resumes the one of the checkpoint.
+ * 2. Reads the file in chunks and uploads each part that is not completed yet.
+ * 3. Completes the upload once all parts are processed, and deletes the checkpoint of the completed session.
  *
  * @param axiosInstance - The Axios instance for making HTTP requests.
  * @param uniqueFileName - The name and uid of the file being uploaded.
@@ -266,6 +224,10 @@ export const readFileInChunks = async (
  * @param organizationName - The name of the organization (used in URL paths).
  * @param partSizeBytes - The maximum size in bytes for each file part.
  * @param signal - Optional An AbortSignal to cancel the operation.
+ * @param retryPolicy - Optional The retry policy for transient failures.
+ * @param resume - Optional The checkpoint file path, the file modification time and the checkpoint to resume from.
+ * @param onUploadProgress - Optional Called whenever the upload makes progress or enters a new phase.
+ * @param concurrency - Optional The maximum number of parts uploaded at the same time.
  */
 export const uploadFileInParts = async (
   axiosInstance: AxiosInstance,
@@ -275,86 +237,315 @@ export const uploadFileInParts = async (
   organizationName: string,
   partSizeBytes: number,
   signal?: AbortSignal,
+  retryPolicy: Required<RetryPolicy> = resolveRetryPolicy(),
+  resume?: { checkpointPath: string; mtimeMs: number; checkpoint?: UploadCheckpoint },
+  onUploadProgress?: (progress: UploadProgress) => void,
+  concurrency = defaultUploadConcurrency,
 ): Promise<void> => {
   const filesUploadUrl = `/organizations/${organizationName}/files/${uniqueFileName}`
   const filePartsUploadUrl = `/organizations/${organizationName}/file_parts/${uniqueFileName}`
 
   const createUploadUrl = `${filesUploadUrl}?action=mpu-create`
 
-  const uploadId = await createUpload(axiosInstance, createUploadUrl, signal)
+  const { partBytesSent, reportProgress } = createUploadProgressReporter(fileSize, onUploadProgress)
 
-  const semaphore = new Semaphore(3)
+  if (!resume?.checkpoint) {
+    reportProgress(UploadPhase.Creating)
+  }
+  const uploadId =
+    resume?.checkpoint?.uploadId ?? (await createUpload(axiosInstance, createUploadUrl, signal, retryPolicy))
+
+  const completedParts = new Map(resume?.checkpoint?.parts.map((part) => [part.partNumber, part]))
+  const numParts = Math.ceil(fileSize / partSizeBytes)
+  const realPartSize = Math.ceil(fileSize / numParts)
+  completedParts.forEach((_part, partNumber) =>
+    partBytesSent.set(partNumber, Math.min(realPartSize, fileSize - (partNumber - 1) * realPartSize)),
+  )
+  const recordPart = resume
+    ? createUploadCheckpointWriter(resume.checkpointPath, {
+        organizationName,
+        filePath,
+        fileSize,
+        mtimeMs: resume.mtimeMs,
+        partSizeBytes,
+        uniqueFileName,
+        uploadId,
+        parts: resume.checkpoint?.parts ?? [],
+      })
+    : undefined
 
-  const parts = await readFileInChunks(
-    filePath,
-    fileSize,
-    partSizeBytes,
-    async (partNumber, chunk) => {
-      await semaphore.acquire()
-      try {
-        const partResp = await uploadPart(axiosInstance, filePartsUploadUrl, uploadId, partNumber, chunk, signal)
+  try {
+    // Save the new upload session before the first part, so it can be resumed even if no part completes.
+    if (recordPart && !resume?.checkpoint) {
+      await recordPart()
+    }
+
+    const parts = await readFileInChunks(
+      filePath,
+      fileSize,
+      partSizeBytes,
+      async (partNumber, chunk) => {
+        reportProgress(UploadPhase.Uploading, partNumber)
+        const partResp = await uploadPart(
+          axiosInstance,
+          filePartsUploadUrl,
+          uploadId,
+          partNumber,
+          chunk,
+          signal,
+          retryPolicy,
+          onUploadProgress &&
+            ((bytesSent) => {
+              partBytesSent.set(partNumber, bytesSent)
+              reportProgress(UploadPhase.Uploading, partNumber)
+            }),
+        )
+        partBytesSent.set(partNumber, chunk.length)
+        await recordPart?.(partResp)
         return partResp
-      } finally {
-        semaphore.release()
-      }
-    },
-    signal,
-  )
+      },
+      signal,
+      concurrency,
+      (partNumber) => completedParts.get(partNumber),
+    )
+
+    reportProgress(UploadPhase.Completing)
+    await completeUpload(axiosInstance, filesUploadUrl, uploadId, parts, signal, retryPolicy)
+  } catch (error) {
+    // The resumed upload session no longer exists, so the next attempt has to start over.
+    if (resume?.checkpoint && getErrorStatus(error) === 404) {
+      await deleteUploadCheckpoint(resume.checkpointPath)
+    }
+    throw error
+  }
 
-  await completeUpload(axiosInstance, filesUploadUrl, uploadId, parts, signal)
+  // The upload session is complete and cannot be resumed anymore, even if signing the file fails.
+  if (resume) {
+    await deleteUploadCheckpoint(resume.checkpointPath)
+  }
 }
 
 /**
- * Returns a remote URL for transcription.
+ * Computes the SHA-256 hash of a file, reading it as a stream.
  *
- * If the provided source is already remote, returns it.
- * Otherwise, it normalizes the file path, uploads the file, and obtains a signed URL.
+ * @param filePath - The path of the file.
+ * @returns A promise that resolves to the hex-encoded hash.
+ */
+export const hashFile = (filePath: string): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const hash = createHash('sha256')
+    createReadStream(filePath)
+      .on('data', (chunk) => hash.update(chunk))
+      .on('error', reject)
+      .on('end', () => resolve(hash.digest('hex')))
+  })
+
+/**
+ * Finds a deduplicated file in storage, first at the storage path in the cache, then under its content hash name.
+ * Cached storage paths that no longer exist are removed from the cache.
  *
  * @param axiosInstance - The axios instance configured for API requests.
- * @param source - The file source, which may be a local path or remote URL.
  * @param organizationName - The organization name.
+ * @param hash - The SHA-256 content hash of the file.
+ * @param hashFileName - The storage file name derived from the hash.
+ * @param cache - Optional The upload cache.
  * @param signal - Optional An AbortSignal to cancel the operation.
- * @returns A promise that resolves to a remote URL.
+ * @param retryPolicy - Optional The retry policy for transient failures.
+ * @returns A promise that resolves to the storage path of the file, or undefined if it is not in storage.
+ */
+const findStoredFile = async (
+  axiosInstance: AxiosInstance,
+  organizationName: string,
+  hash: string,
+  hashFileName: string,
+  cache?: UploadCache,
+  signal?: AbortSignal,
+  retryPolicy: Required<RetryPolicy> = resolveRetryPolicy(),
+): Promise<string | undefined> => {
+  const exists = (storagePath: string) =>
+    storageFileExists(axiosInstance, `/organizations/${organizationName}/files/${storagePath}`, signal, retryPolicy)
+
+  const cachedStoragePath = await cache?.get(hash)
+  if (cachedStoragePath) {
+    if (await exists(cachedStoragePath)) {
+      return cachedStoragePath
+    }
+    await cache?.delete(hash)
+  }
+
+  if (cachedStoragePath !== hashFileName && (await exists(hashFileName))) {
+    await cache?.set(hash, hashFileName)
+    return hashFileName
+  }
+  return undefined
+}
+
+/**
+ * Uploads a source for transcription and returns its signed URL and storage path.
+ *
+ * Normalizes the file path, uploads the file, and obtains a signed URL.
+ * In-memory and stream sources are uploaded without writing them to disk.
+ *
+ * @param axiosInstance - The axios instance configured for API requests.
+ * @param source - The local file path or in-memory source.
+ * @param organizationName - The organization name.
+ * @param signal - Optional An AbortSignal to cancel the operation.
+ * @param retryPolicy - Optional The retry policy for transient failures.
+ * @param uploadOptions - Optional The upload options.
+ * @returns A promise that resolves to the signed URL and the storage path of the upload.
  */
 export const getTranscriptionLocalFileSource = async (
   axiosInstance: AxiosInstance,
-  source: string,
+  source: TranscriptionSource,
   organizationName: string,
   signal?: AbortSignal,
-): Promise<string> => {
+  retryPolicy: Required<RetryPolicy> = resolveRetryPolicy(),
+  uploadOptions?: UploadOptions,
+): Promise<UploadedSource> => {
+  if (typeof source !== 'string') {
+    return getTranscriptionDataSource(axiosInstance, source, organizationName, signal, retryPolicy, uploadOptions)
+  }
+
   const uniqueId = randomUUID()
   const normalizedFilePath = normalizeFilePath(source)
   const fileName = path.basename(normalizedFilePath)
 
-  const uniqueFileName = `${uniqueId}-${fileName}`
+  const { partSizeBytes, concurrency, multipartThresholdBytes, signedUrlExpirySeconds } = UploadOptionsSchema.parse({
+    partSizeBytes: uploadOptions?.partSizeBytes,
+    concurrency: uploadOptions?.concurrency,
+    multipartThresholdBytes: uploadOptions?.multipartThresholdBytes,
+    signedUrlExpirySeconds: uploadOptions?.signedUrlExpirySeconds,
+  })
+
+  const { validateMedia } = uploadOptions ?? {}
+  if (validateMedia) {
+    await validateMediaFile(normalizedFilePath, typeof validateMedia === 'object' ? validateMedia : undefined)
+  }
+
+  // Deduplicated files are stored under their content hash, so an identical file is found again in storage.
+  const { deduplicate } = uploadOptions ?? {}
+  const hash = deduplicate ? await hashFile(normalizedFilePath) : undefined
+  const uniqueFileName = hash ? `${hash}${path.extname(fileName).toLowerCase()}` : `${uniqueId}-${fileName}`
+
+  if (hash) {
+    const cache = typeof deduplicate === 'object' ? deduplicate.cache : undefined
+    const storagePath = await findStoredFile(
+      axiosInstance,
+      organizationName,
+      hash,
+      uniqueFileName,
+      cache,
+      signal,
+      retryPolicy,
+    )
+    if (storagePath) {
+      const { url } = await signFile(
+        axiosInstance,
+        `/organizations/${organizationName}/file_tokens/${storagePath}`,
+        fileName,
+        signal,
+        retryPolicy,
+        signedUrlExpirySeconds,
+      )
+      return { url, storagePath, deduplicated: true }
+    }
+  }
 
   const uploadFileRequestUrl = `/organizations/${organizationName}/files/${uniqueFileName}`
   const signFileRequestUrl = `/organizations/${organizationName}/file_tokens/${uniqueFileName}`
 
+  let fileSize: number
   try {
     const stats = await fs.stat(normalizedFilePath)
-    const fileSize = stats.size
+    fileSize = stats.size
+
+    if (fileSize > multipartThresholdBytes) {
+      const { resumable } = uploadOptions ?? {}
+      const checkpointPath = resumable
+        ? (typeof resumable === 'object' && resumable.checkpointPath) ||
+          getDefaultCheckpointPath(organizationName, normalizedFilePath)
+        : undefined
+      const checkpoint = checkpointPath
+        ? await loadUploadCheckpoint(checkpointPath, {
+            organizationName,
+            filePath: normalizedFilePath,
+            fileSize,
+            mtimeMs: stats.mtimeMs,
+            partSizeBytes,
+          })
+        : undefined
+
+      // A resumed upload keeps the storage file name of the interrupted one.
+      const multipartFileName = checkpoint?.uniqueFileName ?? uniqueFileName
 
-    if (fileSize > maxFileSizeBytesForStorage) {
       await uploadFileInParts(
         axiosInstance,
-        uniqueFileName,
+        multipartFileName,
         normalizedFilePath,
         fileSize,
         organizationName,
-        filePartSizeBytesForStorage,
+        partSizeBytes,
+        signal,
+        retryPolicy,
+        checkpointPath ? { checkpointPath, mtimeMs: stats.mtimeMs, checkpoint } : undefined,
+        uploadOptions?.onUploadProgress,
+        concurrency,
+      )
+      uploadOptions?.onUploadProgress?.({ phase: UploadPhase.Signing, bytesSent: fileSize, totalBytes: fileSize })
+      const { url } = await signFile(
+        axiosInstance,
+        `/organizations/${organizationName}/file_tokens/${multipartFileName}`,
+        fileName,
         signal,
+        retryPolicy,
+        signedUrlExpirySeconds,
       )
-      const { url } = await signFile(axiosInstance, signFileRequestUrl, fileName)
-      return url
+      if (hash && typeof deduplicate === 'object') {
+        await deduplicate.cache?.set(hash, multipartFileName)
+      }
+      return { url, storagePath: multipartFileName, deduplicated: hash !== undefined }
     }
   } catch (error: any) {
-    throw new UploadError(fileName, error.message)
+    throw error instanceof AbortError ? error : new UploadError(fileName, error.message, error)
   }
 
-  const formData = await createFormData(normalizedFilePath)
-  await uploadFile(axiosInstance, formData, uploadFileRequestUrl, fileName)
+  // The form data stream is consumed by each attempt, so it is recreated on retries.
+  const { onUploadProgress } = uploadOptions ?? {}
+  await withRetry(
+    async () => {
+      const formData = await createFormData(normalizedFilePath)
+      onUploadProgress?.({ phase: UploadPhase.Uploading, bytesSent: 0, totalBytes: fileSize })
+      return uploadFile(
+        axiosInstance,
+        formData,
+        uploadFileRequestUrl,
+        fileName,
+        signal,
+        onUploadProgress &&
+          ((bytesSent) =>
+            // The form data encoding adds a few bytes, so the count is capped at the file size.
+            onUploadProgress({
+              phase: UploadPhase.Uploading,
+              bytesSent: Math.min(bytesSent, fileSize),
+              totalBytes: fileSize,
+            })),
+      )
+    },
+    retryPolicy,
+    signal,
+  )
 
-  const { url } = await signFile(axiosInstance, signFileRequestUrl, fileName)
-  return url
+  onUploadProgress?.({ phase: UploadPhase.Signing, bytesSent: fileSize, totalBytes: fileSize })
+  const { url } = await signFile(
+    axiosInstance,
+    signFileRequestUrl,
+    fileName,
+    signal,
+    retryPolicy,
+    signedUrlExpirySeconds,
+  )
+  if (hash && typeof deduplicate === 'object') {
+    await deduplicate.cache?.set(hash, uniqueFileName)
+  }
+  return { url, storagePath: uniqueFileName, deduplicated: hash !== undefined }
 }
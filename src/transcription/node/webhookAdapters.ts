@@ -0,0 +1,289 @@
+import type { IncomingHttpHeaders, IncomingMessage, ServerResponse } from 'http'
+import { ZodError } from 'zod'
+import { ReplayStore, WebhookEvent, WebhookSecret, WebhookVerificationOptions } from '../types'
+import { verifyWebhookEvent } from '../webhook/event'
+import { Webhook, WebhookUnbrandedRequiredHeaders, WebhookVerificationError } from '../webhook/webhook'
+
+/**
+ * Options of the handlers receiving webhooks.
+ */
+export interface WebhookHandlerOptions extends WebhookVerificationOptions {
+  /**
+   * The signing secret of the organization, with or without the `whsec_` prefix. While rotating the secret, a list of
+   * the new and old secrets; events report the id of the matching secret as `keyId`.
+   */
+  secret: string | WebhookSecret[]
+  /**
+   * Called with each verified event. The delivery is acknowledged once the returned promise resolves; if it rejects,
+   * the delivery fails, so it is sent again. The replay store then forgets the webhook ID, so the retry is accepted.
+   */
+  onEvent: (event: WebhookEvent) => void | Promise<void>
+  /** Optional Called with the error of each delivery that is rejected as unauthorized or invalid. */
+  onError?: (error: unknown) => void
+}
+
+/**
+ * The result of verifying a webhook delivery, as an HTTP response.
+ */
+interface WebhookDeliveryResult {
+  status: number
+  message?: string
+  event?: WebhookEvent
+}
+
+/**
+ * An Express request. Only the properties used by the middleware are declared, so Express is not a dependency.
+ */
+export interface ExpressWebhookRequest extends IncomingMessage {
+  /** The body read by a body parser, if one ran before the middleware. */
+  body?: unknown
+  /** The raw body, as captured by the `verify` option of `express.json()`. */
+  rawBody?: Buffer
+}
+
+/**
+ * A Fastify instance. Only the methods used by the plugin are declared, so Fastify is not a dependency.
+ */
+export interface FastifyWebhookInstance {
+  addContentTypeParser(
+    contentType: string,
+    options: { parseAs: 'buffer' },
+    parser: (request: unknown, body: Buffer, done: (error: Error | null, body?: Buffer) => void) => void,
+  ): unknown
+  post(
+    path: string,
+    handler: (
+      request: { body: unknown; headers: IncomingHttpHeaders },
+      reply: { code(statusCode: number): { send(payload?: string): unknown } },
+    ) => Promise<unknown>,
+  ): unknown
+}
+
+/**
+ * Options of the Fastify webhook plugin.
+ */
+export interface FastifyWebhookPluginOptions extends WebhookHandlerOptions {
+  /** Optional The path of the webhook route. Defaults to "/". */
+  path?: string
+}
+
+/**
+ * Returns the webhook headers of a request, or undefined if any of them is missing.
+ *
+ * @param headers - The request headers.
+ * @returns The webhook headers.
+ */
+const getWebhookHeaders = (headers: IncomingHttpHeaders): WebhookUnbrandedRequiredHeaders | undefined => {
+  const header = (name: string): string | undefined => {
+    const value = headers[name]
+    return Array.isArray(value) ? value[0] : value
+  }
+  const webhookId = header('webhook-id')
+  const webhookTimestamp = header('webhook-timestamp')
+  const webhookSignature = header('webhook-signature')
+  return webhookId && webhookTimestamp && webhookSignature
+    ? { 'webhook-id': webhookId, 'webhook-timestamp': webhookTimestamp, 'webhook-signature': webhookSignature }
+    : undefined
+}
+
+/**
+ * Creates the webhook verifier of a handler.
+ *
+ * @param options - The handler options.
+ * @returns The webhook verifier.
+ */
+const createWebhook = (options: WebhookHandlerOptions): Webhook =>
+  new Webhook(options.secret, { toleranceInSeconds: options.toleranceInSeconds })
+
+/**
+ * Verifies a webhook delivery. Deliveries with a bad signature or timestamp, or replayed deliveries, are unauthorized
+ * (401); deliveries with missing headers, or whose body is not an event of a transcription job, are invalid (400).
+ *
+ * @param webhook - The webhook verifier holding the signing secret.
+ * @param payload - The raw request body.
+ * @param headers - The request headers.
+ * @param options - The handler options.
+ * @returns A promise that resolves to the response status, and the event of a verified delivery.
+ */
+const verifyDelivery = async (
+  webhook: Webhook,
+  payload: string | Buffer,
+  headers: IncomingHttpHeaders,
+  options: WebhookHandlerOptions,
+): Promise<WebhookDeliveryResult> => {
+  const webhookHeaders = getWebhookHeaders(headers)
+  if (!webhookHeaders) {
+    options.onError?.(new WebhookVerificationError('Missing required headers'))
+    return { status: 400, message: 'Missing required headers' }
+  }
+  try {
+    return { status: 204, event: await verifyWebhookEvent(webhook, payload, webhookHeaders, options.replayStore) }
+  } catch (error) {
+    if (error instanceof WebhookVerificationError) {
+      options.onError?.(error)
+      return { status: 401, message: error.message }
+    } else if (error instanceof ZodError || error instanceof SyntaxError) {
+      options.onError?.(error)
+      return { status: 400, message: 'Invalid webhook payload' }
+    }
+    // Failures of the replay store fail the delivery, so it is sent again.
+    throw error
+  }
+}
+
+/**
+ * Passes a verified event to the callback. If the callback fails, the replay store forgets the webhook ID, so the
+ * delivery is accepted when it is sent again.
+ *
+ * @param event - The verified event.
+ * @param onEvent - The callback.
+ * @param replayStore - Optional The replay store.
+ */
+const handleEvent = async (
+  event: WebhookEvent,
+  onEvent: WebhookHandlerOptions['onEvent'],
+  replayStore?: ReplayStore,
+): Promise<void> => {
+  try {
+    await onEvent(event)
+  } catch (error) {
+    await replayStore?.delete(event.webhookId)
+    throw error
+  }
+}
+
+/**
+ * Reads the raw body of a request.
+ *
+ * @param request - The request.
+ * @returns A promise that resolves to the body.
+ */
+const readRequestBody = (request: IncomingMessage): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = []
+    request.on('data', (chunk: Buffer) => chunks.push(chunk))
+    request.on('end', () => resolve(Buffer.concat(chunks)))
+    request.on('error', reject)
+  })
+
+/**
+ * Sends a response with an optional plain text message.
+ *
+ * @param response - The response.
+ * @param status - The HTTP status.
+ * @param message - Optional The message.
+ */
+const sendResponse = (response: ServerResponse, status: number, message?: string): void => {
+  response.statusCode = status
+  if (message) {
+    response.setHeader('Content-Type', 'text/plain; charset=utf-8')
+  }
+  response.end(message)
+}
+
+/**
+ * Creates a Node.js `http` request listener that receives webhooks, e.g. for `http.createServer`.
+ *
+ * The listener reads the raw body, verifies it and passes the event to `onEvent`. It responds with 204 once the event
+ * is handled, 401 or 400 for rejected deliveries, and 500 if `onEvent` fails.
+ *
+ * @param options - The handler options.
+ * @returns The request listener.
+ */
+export const createWebhookRequestListener = (
+  options: WebhookHandlerOptions,
+): ((request: IncomingMessage, response: ServerResponse) => Promise<void>) => {
+  const webhook = createWebhook(options)
+
+  return async (request, response) => {
+    if (request.method !== 'POST') {
+      response.setHeader('Allow', 'POST')
+      sendResponse(response, 405)
+      return
+    }
+    try {
+      const { status, message, event } = await verifyDelivery(
+        webhook,
+        await readRequestBody(request),
+        request.headers,
+        options,
+      )
+      if (event) {
+        await handleEvent(event, options.onEvent, options.replayStore)
+      }
+      sendResponse(response, status, message)
+    } catch {
+      sendResponse(response, 500)
+    }
+  }
+}
+
+/**
+ * Creates an Express middleware that receives webhooks.
+ *
+ * Mount it before any body parser, or after `express.raw()` or `express.text()`, so the body is verified exactly as it
+ * was sent. A JSON body parser re-serializes the body, so after `express.json()` the middleware only works if its
+ * `verify` option stores the raw body as `req.rawBody`. Errors of `onEvent` are passed to `next`.
+ *
+ * @param options - The handler options.
+ * @returns The middleware.
+ */
+export const createExpressWebhookMiddleware = (
+  options: WebhookHandlerOptions,
+): ((request: ExpressWebhookRequest, response: ServerResponse, next: (error?: unknown) => void) => Promise<void>) => {
+  const webhook = createWebhook(options)
+
+  return async (request, response, next) => {
+    try {
+      let payload: string | Buffer
+      if (request.rawBody) {
+        payload = request.rawBody
+      } else if (typeof request.body === 'string' || Buffer.isBuffer(request.body)) {
+        payload = request.body
+      } else if (request.body === undefined) {
+        payload = await readRequestBody(request)
+      } else {
+        throw new Error('The raw webhook body is not available, mount the middleware before express.json()')
+      }
+
+      const { status, message, event } = await verifyDelivery(webhook, payload, request.headers, options)
+      if (event) {
+        await handleEvent(event, options.onEvent, options.replayStore)
+      }
+      sendResponse(response, status, message)
+    } catch (error) {
+      next(error)
+    }
+  }
+}
+
+/**
+ * A Fastify plugin that receives webhooks on a POST route, e.g. `fastify.register(fastifyWebhookPlugin, options)`.
+ *
+ * The plugin parses JSON bodies of its own routes as raw buffers, so the body is verified exactly as it was sent,
+ * without affecting the other routes. Errors of `onEvent` are left to the Fastify error handler.
+ *
+ * @param fastify - The Fastify instance.
+ * @param options - The plugin options.
+ * @param done - Called once the plugin is registered.
+ */
+export const fastifyWebhookPlugin = (
+  fastify: FastifyWebhookInstance,
+  options: FastifyWebhookPluginOptions,
+  done: (error?: Error) => void,
+): void => {
+  const webhook = createWebhook(options)
+
+  fastify.addContentTypeParser('application/json', { parseAs: 'buffer' }, (_request, body, parsed) =>
+    parsed(null, body),
+  )
+  fastify.post(options.path ?? '/', async (request, reply) => {
+    const payload = Buffer.isBuffer(request.body) ? request.body : Buffer.from(String(request.body ?? ''))
+    const { status, message, event } = await verifyDelivery(webhook, payload, request.headers, options)
+    if (event) {
+      await handleEvent(event, options.onEvent, options.replayStore)
+    }
+    return reply.code(status).send(message)
+  })
+  done()
+}
@@ -1,4 +1,10 @@
 import { z } from 'zod'
+import {
+  defaultUploadConcurrency,
+  filePartSizeBytesForStorage,
+  maxFileSizeBytesForStorage,
+  oneDayInSeconds,
+} from './constants'
 import { EventAction, Status, TranslationLanguage } from './types'
 
 export const GetTranscriptionRequestSchema = z
@@ -18,6 +24,8 @@ export const StopTranscriptionRequestSchema = z
 export const ListTranscriptionsRequestSchema = z
   .object({
     organizationName: z.string(),
+    page: z.number().int().positive().optional(),
+    pageSize: z.number().int().positive().optional(),
   })
   .strict()
 
@@ -67,6 +75,98 @@ export const TranscribeRequestSchema = z
   })
   .strict()
 
+export const TranscriptWordSchema = z
+  .object({
+    word: z.string(),
+    start: z.number().optional(),
+    end: z.number().optional(),
+    score: z.number().optional(),
+    speaker: z.string().optional(),
+  })
+  .transform((data) => ({
+    word: data.word,
+    start: data.start,
+    end: data.end,
+    score: data.score,
+    speaker: data.speaker,
+  }))
+
+export const TranscriptSentenceSchema = z
+  .object({
+    text: z.string(),
+    timestamp: z.tuple([z.number(), z.number()]).optional(),
+    start: z.number().optional(),
+    end: z.number().optional(),
+    speaker: z.string().optional(),
+    words: z.array(TranscriptWordSchema).optional(),
+  })
+  .refine((data) => data.timestamp !== undefined || (data.start !== undefined && data.end !== undefined), {
+    message: 'Sentence requires either a timestamp or start and end values',
+  })
+  .transform((data) => ({
+    text: data.text,
+    start: (data.start ?? data.timestamp?.[0]) as number,
+    end: (data.end ?? data.timestamp?.[1]) as number,
+    speaker: data.speaker,
+    words: data.words,
+  }))
+
+export const TranscriptOutputSchema = z
+  .object({
+    text: z.string(),
+    duration_in_seconds: z.number(),
+    duration: z.number(),
+    processing_time: z.number(),
+    // The optional parts are dropped when malformed, so they never fail the job that succeeded. Captions check the
+    // timestamps they need themselves.
+    sentence_level_timestamps: z.array(TranscriptSentenceSchema).optional().catch(undefined),
+    word_segments: z.array(TranscriptWordSchema).optional().catch(undefined),
+    srt_content: z.string().optional().catch(undefined),
+    summary: z.string().optional().catch(undefined),
+    llm_translation: z.record(z.string()).optional().catch(undefined),
+    srt_translation: z.record(z.string()).optional().catch(undefined),
+    overall_sentiment: z.string().optional().catch(undefined),
+    overall_classification: z.string().optional().catch(undefined),
+  })
+  .transform((data) => ({
+    text: data.text,
+    durationInSeconds: data.duration_in_seconds,
+    duration: data.duration,
+    processingTime: data.processing_time,
+    sentenceLevelTimestamps: data.sentence_level_timestamps,
+    wordSegments: data.word_segments,
+    srtContent: data.srt_content,
+    summary: data.summary,
+    llmTranslation: data.llm_translation,
+    srtTranslation: data.srt_translation,
+    overallSentiment: data.overall_sentiment,
+    overallClassification: data.overall_classification,
+  }))
+
+export const TranscriptFileOutputSchema = z
+  .object({
+    url: z.string().url(),
+    duration_in_seconds: z.number(),
+    duration: z.number(),
+    processing_time: z.number(),
+  })
+  .transform((data) => ({
+    url: data.url,
+    durationInSeconds: data.duration_in_seconds,
+    duration: data.duration,
+    processingTime: data.processing_time,
+  }))
+
+export const TranscriptErrorOutputSchema = z
+  .object({
+    error: z.string(),
+    duration: z.number(),
+  })
+  .transform((data) => ({
+    error: data.error,
+    duration: data.duration,
+  }))
+
 export const TranscribeResponseSchema = z
   .object({
     id: z.string(),
@@ -99,56 +199,12 @@ export const TranscribeResponseSchema = z
       }),
     ),
     organizationName: z.string(),
-    output: z
-      .union([
-        z.object({
-          text: z.string(),
-          duration_in_seconds: z.number(),
-          duration: z.number(),
-          processing_time: z.number(),
-        }),
-        z.object({
-          url: z.string().url(),
-          duration_in_seconds: z.number(),
-          duration: z.number(),
-          processing_time: z.number(),
-        }),
-        z.object({
-          error: z.string(),
-          duration: z.number(),
-        }),
-      ])
-      .optional(),
+    output: z.union([TranscriptOutputSchema, TranscriptFileOutputSchema, TranscriptErrorOutputSchema]).optional(),
     createTime: z.string(),
     updateTime: z.string(),
     webhook: z.string().url().optional().describe('Webhook URL to receive transcription updates.'),
   })
   .transform((data) => {
-    let output
-
-    if (data.output) {
-      if ('error' in data.output) {
-        output = {
-          error: data.output.error,
-          duration: data.output.duration,
-        }
-      } else if ('text' in data.output) {
-        output = {
-          text: data.output.text,
-          durationInSeconds: data.output.duration_in_seconds,
-          duration: data.output.duration,
-          processingTime: data.output.processing_time,
-        }
-      } else {
-        output = {
-          url: data.output.url,
-          durationInSeconds: data.output.duration_in_seconds,
-          duration: data.output.duration,
-          processingTime: data.output.processing_time,
-        }
-      }
-    }
-
     return {
       id: data.id,
       input: {
@@ -178,7 +234,7 @@ export const TranscribeResponseSchema = z
         time: event.time,
       })),
       organizationName: data.organizationName,
-      output,
+      output: data.output,
       createTime: data.createTime,
       updateTime: data.updateTime,
       webhookUrl: data.webhook,
@@ -189,12 +245,77 @@ export const ListTranscriptionsResponseSchema = z.object({
   items: z.array(TranscribeResponseSchema),
 })
 
+export const ListStorageFilesResponseSchema = z.object({
+  files: z.array(
+    z.object({
+      url: z.string(),
+      size: z.number(),
+    }),
+  ),
+})
+
 export const ProcessWebhookRequestSchema = z
   .object({
     payload: z.any(),
-    base64Secret: z.string(),
+    base64Secret: z.union([
+      z.string(),
+      z
+        .array(
+          z.union([
+            z.string().min(1),
+            z.instanceof(Uint8Array),
+            z.object({ keyId: z.string(), secret: z.union([z.string().min(1), z.instanceof(Uint8Array)]) }),
+          ]),
+        )
+        .nonempty(),
+    ]),
     webhookId: z.string(),
     webhookTimestamp: z.string(),
     webhookSignature: z.string(),
   })
   .strict()
+
+/**
+ * Converts the top-level keys of a job to camelCase. Webhook payloads carry the job as the API returns it, while
+ * `TranscribeResponseSchema` expects the top-level keys of the SaladCloud SDK, e.g. `organizationName`.
+ */
+const camelCaseJobKeys = (data: unknown): unknown =>
+  data && typeof data === 'object' && !Array.isArray(data)
+    ? Object.keys(data).reduce<Record<string, unknown>>((job, key) => {
+        job[key.replace(/_([a-z])/g, (_match, char: string) => char.toUpperCase())] = (data as any)[key]
+        return job
+      }, {})
+    : data
+
+export const WebhookPayloadSchema = z.object({
+  action: z.string(),
+  data: z.preprocess(camelCaseJobKeys, TranscribeResponseSchema),
+})
+
+export const UploadCheckpointSchema = z.object({
+  organizationName: z.string(),
+  filePath: z.string(),
+  fileSize: z.number(),
+  mtimeMs: z.number(),
+  partSizeBytes: z.number(),
+  uniqueFileName: z.string(),
+  uploadId: z.string(),
+  parts: z.array(
+    z.object({
+      etag: z.string(),
+      partNumber: z.number(),
+    }),
+  ),
+})
+
+export const UploadOptionsSchema = z.object({
+  partSizeBytes: z.number().int().positive().default(filePartSizeBytesForStorage),
+  concurrency: z.number().int().positive().default(defaultUploadConcurrency),
+  multipartThresholdBytes: z
+    .number()
+    .int()
+    .nonnegative()
+    .max(maxFileSizeBytesForStorage)
+    .default(maxFileSizeBytesForStorage),
+  signedUrlExpirySeconds: z.number().int().positive().default(oneDayInSeconds),
+})
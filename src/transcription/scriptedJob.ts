@@ -0,0 +1,25 @@
+import { FakeTranscriptionScript, Status } from './types'
+
+/**
+ * Returns the status of a scripted transcription job of the fake SDK or the emulator: pending, then running, then its
+ * final status.
+ *
+ * @param script - The lifecycle of the job.
+ * @param polls - The number of times the job was polled, including the current poll.
+ * @param elapsedMs - The time since the job was submitted, in milliseconds.
+ * @returns The status of the job.
+ */
+export const getScriptedJobStatus = (script: FakeTranscriptionScript, polls: number, elapsedMs: number): Status => {
+  const isTimed = script.pendingMs !== undefined || script.runningMs !== undefined
+  const pending = isTimed ? (script.pendingMs ?? 0) : (script.pendingPolls ?? 1)
+  const running = isTimed ? (script.runningMs ?? 0) : (script.runningPolls ?? 1)
+  // The first poll counts as no progress, so a job is pending on its first `pendingPolls` polls.
+  const progress = isTimed ? elapsedMs : polls - 1
+
+  if (progress < pending) {
+    return Status.Pending
+  } else if (progress < pending + running) {
+    return Status.Running
+  }
+  return script.status ?? Status.Succeeded
+}
@@ -1,8 +1,18 @@
 import { SaladCloudSdk } from '@saladtechnologies-oss/salad-cloud-sdk'
 import axios, { AxiosInstance } from 'axios'
-import { oneMinuteInMs, oneSecondInMs, transcribeInferenceEndpointName } from './constants'
-import { TranscriptionError } from './errors'
+import {
+  defaultListPageSize,
+  defaultStorageBaseUrl,
+  defaultTranscribeManyConcurrency,
+  defaultWaitForIntervalMs,
+  defaultWaitForMaxIntervalMs,
+  defaultWaitForTimeoutMs,
+  transcribeInferenceEndpointName,
+} from './constants'
+import { AbortError, TranscriptionError, WaitForTimeoutError } from './errors'
+import { StorageFiles } from './files'
 import { getTranscriptionLocalFileSource } from './node'
+import { Semaphore } from './node/semaphore'
 import {
   GetTranscriptionRequestSchema,
   ListTranscriptionsRequestSchema,
@@ -13,140 +23,288 @@ import {
   TranscribeResponseSchema,
 } from './schema'
 import {
+  GetOptions,
   GetTranscriptionRequest,
+  ListAllOptions,
+  ListOptions,
+  ListTranscriptionsRequest,
   ListTranscriptionsResponse,
   ProcessWebhookRequest,
+  RequestOptions,
+  RetryPolicy,
   SaladCloudTranscriptionSdkConfig,
   Status,
   StopTranscriptionRequest,
+  TranscribeManyOptions,
+  TranscribeManyResult,
   TranscribeOptions,
   TranscribeRequest,
+  TranscribeRequestOptions,
   TranscribeResponse,
+  TranscriptionSource,
+  UploadOptions,
+  WaitOptions,
+  WebhookEvent,
+  WebhookSecret,
+  WebhookVerificationOptions,
 } from './types'
-import { isRemoteFile, transformTranscribeRequest } from './utils'
-import { Webhook } from './webhook'
+import {
+  fetchOutput,
+  filterTranscriptions,
+  getBackoffDelay,
+  getNonIdempotentRetryPolicy,
+  isRemoteFile,
+  resolveRetryPolicy,
+  sleep,
+  toApiError,
+  transformTranscribeRequest,
+  withRetry,
+} from './utils'
+import { verifyWebhookEvent, Webhook } from './webhook'
 
 export class SaladCloudTranscriptionSdk {
+  /**
+   * Manages the files uploaded to SaladCloud storage.
+   */
+  public readonly files: StorageFiles
   private saladCloudSdk: SaladCloudSdk
   private axiosInstance: AxiosInstance
+  private retryPolicy?: RetryPolicy
+  private uploadOptions?: UploadOptions
 
   constructor(config: SaladCloudTranscriptionSdkConfig) {
     if (!config.apiKey) {
       throw new Error('SDK initialization requires an apiKey.')
     }
+    // Retries follow the retry policy of this SDK, so the SaladCloud SDK must not retry on its own as well.
     this.saladCloudSdk = new SaladCloudSdk({
       apiKey: config.apiKey,
       timeoutMs: config.timeoutMs,
+      baseUrl: config.apiBaseUrl,
+      retry: { attempts: 1 },
     })
     this.axiosInstance = axios.create({
-      baseURL: 'https://storage-api.salad.com',
+      baseURL: config.storageBaseUrl ?? defaultStorageBaseUrl,
       headers: {
         'Salad-Api-Key': config.apiKey,
       },
     })
+    this.retryPolicy = config.retry
+    this.uploadOptions = config.upload
+    this.files = new StorageFiles(this.axiosInstance, this.retryPolicy, this.uploadOptions?.signedUrlExpirySeconds)
   }
   /**
    * Transcribes a file or remote source.
    *
    * @param organizationName - The organization name.
-   * @param source - A local file path or a remote URL.
+   * @param source - A remote URL, a local file path (Node.js only), or data to upload: a `File`, `Blob`, `ArrayBuffer`,
+   * `Buffer` or `Uint8Array`, a stream such as a Node.js `Readable`, or a `{ data, fileName, size }` object that names the
+   * upload.
    * @param options - Optional transcription options.
    * @param webhookUrl - Optional webhook URL for callbacks.
    * @param signal - Optional An AbortSignal to cancel the operation.
+   * @param requestOptions - Optional per-call request options.
    * @returns A promise that resolves to the validated transcription response.
    */
   async transcribe(
     organizationName: string,
-    source: string,
+    source: TranscriptionSource,
     options?: TranscribeOptions,
     webhookUrl?: string,
     signal?: AbortSignal,
+    requestOptions?: TranscribeRequestOptions,
   ): Promise<TranscribeResponse> {
+    const retryPolicy = resolveRetryPolicy(this.retryPolicy, requestOptions?.retry)
     let transcriptionSource: string
-    if (isRemoteFile(source)) {
-      transcriptionSource = source
-    } else {
-      try {
-        transcriptionSource = await getTranscriptionLocalFileSource(
+    let storagePath: string | undefined
+    let deduplicated: boolean | undefined
+
+    try {
+      if (typeof source === 'string' && isRemoteFile(source)) {
+        transcriptionSource = source
+      } else {
+        const upload = await getTranscriptionLocalFileSource(
           this.axiosInstance,
           source,
           organizationName,
           signal,
+          retryPolicy,
+          { ...this.uploadOptions, ...requestOptions?.upload },
         )
-      } catch (error) {
-        throw error
+        transcriptionSource = upload.url
+        storagePath = upload.storagePath
+        deduplicated = upload.deduplicated
       }
-    }
 
-    // Build the transcription request.
-    const request: TranscribeRequest = {
-      organizationName,
-      source: transcriptionSource,
-      options,
-      webhookUrl,
-    }
+      // Build the transcription request.
+      const request: TranscribeRequest = {
+        organizationName,
+        source: transcriptionSource,
+        options,
+        webhookUrl,
+      }
 
-    // Validate the request payload.
-    const validRequest = TranscribeRequestSchema.parse(request)
-    const transformedRequest = transformTranscribeRequest(validRequest)
+      // Validate the request payload.
+      const validRequest = TranscribeRequestSchema.parse(request)
+      const transformedRequest = transformTranscribeRequest(validRequest)
 
-    try {
       // Send the transcription request.
-      const createInferenceEndpointJobResponse = this.saladCloudSdk.inferenceEndpoints.createInferenceEndpointJob(
-        validRequest.organizationName,
-        transcribeInferenceEndpointName,
-        transformedRequest,
+      const createInferenceEndpointJobResponse = withRetry(
+        () =>
+          this.saladCloudSdk.inferenceEndpoints.createInferenceEndpointJob(
+            validRequest.organizationName,
+            transcribeInferenceEndpointName,
+            transformedRequest,
+          ),
+        // A retried job creation could create a duplicate job, so only failures of requests that were not processed
+        // are retried.
+        getNonIdempotentRetryPolicy(retryPolicy),
+        signal,
       )
 
       // If an AbortSignal is provided, create an abort promise that rejects when aborted.
       const abortPromise = new Promise<never>((_resolve, reject) => {
         if (signal) {
-          signal.addEventListener('abort', () => reject(new Error('Operation aborted')))
+          signal.addEventListener('abort', () => reject(new AbortError()))
         }
       })
 
       // Race the transcription job promise with the abort promise.
       const response = await Promise.race([createInferenceEndpointJobResponse, abortPromise])
 
-      // Validate and return the response payload.
-      return TranscribeResponseSchema.parse(response.data)
+      // Validate and return the response payload, with the storage path of an uploaded source.
+      const validResponse = TranscribeResponseSchema.parse(response.data)
+      if (!storagePath) {
+        return validResponse
+      }
+      return deduplicated ? { ...validResponse, storagePath, deduplicated } : { ...validResponse, storagePath }
     } catch (error) {
-      throw error
+      throw toApiError(error, { operation: 'transcribe', organizationName })
     }
   }
 
+  /**
+   * Signs an uploaded source again, e.g. to resubmit a job whose source URL expired without uploading it again.
+   *
+   * @param organizationName - The organization name.
+   * @param storagePath - The storage path of the upload, as recorded on the result of `transcribe`.
+   * @param expSeconds - Optional The lifetime of the signed URL in seconds. Defaults to the configured
+   * `signedUrlExpirySeconds`, or one day.
+   * @returns A promise that resolves to the new signed URL.
+   */
+  async resignSource(organizationName: string, storagePath: string, expSeconds?: number): Promise<string> {
+    return this.files.sign(organizationName, storagePath, expSeconds)
+  }
+
+  /**
+   * Transcribes many files or remote sources with a bounded number of concurrent uploads and submissions.
+   *
+   * A failing source does not fail the batch; its result reports the error instead.
+   *
+   * @param organizationName - The organization name.
+   * @param sources - Local file paths, remote URLs or in-memory sources.
+   * @param options - Optional batch transcription options.
+   * @param signal - Optional An AbortSignal to cancel the operation.
+   * @returns A promise that resolves to one result per source, in the order of the sources.
+   */
+  async transcribeMany(
+    organizationName: string,
+    sources: TranscriptionSource[],
+    options?: TranscribeManyOptions,
+    signal?: AbortSignal,
+  ): Promise<TranscribeManyResult[]> {
+    const concurrency = options?.concurrency ?? defaultTranscribeManyConcurrency
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new Error('Batch transcription requires a positive integer concurrency.')
+    }
+
+    const semaphore = new Semaphore(concurrency)
+    const { deleteUploadAfterCompletion, ...waitOptions } =
+      typeof options?.waitForCompletion === 'object' ? options.waitForCompletion : {}
+    const requestOptions: TranscribeRequestOptions = { retry: options?.retry, upload: options?.upload }
+
+    return Promise.all(
+      sources.map(async (source, index): Promise<TranscribeManyResult> => {
+        let id: string | undefined
+        try {
+          await semaphore.acquire()
+          let response: TranscribeResponse
+          try {
+            response = await this.transcribe(
+              organizationName,
+              source,
+              options?.options,
+              options?.webhookUrl,
+              signal,
+              requestOptions,
+            )
+          } finally {
+            semaphore.release()
+          }
+          id = response.id
+
+          // Waiting only polls, so it does not hold a slot of the upload and submission concurrency.
+          if (options?.waitForCompletion) {
+            response = await this.waitFor(organizationName, id, signal, {
+              retry: options.retry,
+              ...waitOptions,
+              deleteUploadAfterCompletion: deleteUploadAfterCompletion ? response : undefined,
+            })
+          }
+          return { index, source, success: true, id, response }
+        } catch (error) {
+          return { index, source, success: false, id, error }
+        }
+      }),
+    )
+  }
+
   /**
    * Retrieves the current status or result of a transcription job.
    *
    * @param organizationName - The organization name.
    * @param transcriptionId - The unique identifier for the transcription job.
+   * @param options - Optional get options, including an AbortSignal to cancel the operation.
    * @returns A promise that resolves to a validated TranscribeResponse.
    */
-  async get(organizationName: string, transcriptionId: string): Promise<TranscribeResponse> {
+  async get(organizationName: string, transcriptionId: string, options?: GetOptions): Promise<TranscribeResponse> {
     const request: GetTranscriptionRequest = { organizationName, transcriptionId }
-
-    // Validate the request payload.
-    const validRequest = GetTranscriptionRequestSchema.parse(request)
+    const retryPolicy = resolveRetryPolicy(this.retryPolicy, options?.retry)
+    const signal = options?.signal
 
     try {
+      // Validate the request payload.
+      const validRequest = GetTranscriptionRequestSchema.parse(request)
+
+      if (signal?.aborted) {
+        throw new AbortError()
+      }
+
       // Retrieve the job using SaladCloudSdk.
-      const response = await this.saladCloudSdk.inferenceEndpoints.getInferenceEndpointJob(
-        validRequest.organizationName,
-        transcribeInferenceEndpointName,
-        validRequest.transcriptionId,
+      const response = await withRetry(
+        () =>
+          this.saladCloudSdk.inferenceEndpoints.getInferenceEndpointJob(
+            validRequest.organizationName,
+            transcribeInferenceEndpointName,
+            validRequest.transcriptionId,
+          ),
+        retryPolicy,
+        signal,
       )
       const { data } = response
       // Validate the response payload.
       const validResponse = TranscribeResponseSchema.parse(data)
 
       // Throw an error if the response contains an error message.
-      if (validResponse.output?.error) {
+      if (validResponse.output && 'error' in validResponse.output) {
         throw new TranscriptionError(validResponse.id, validResponse.output.error)
+      } else if (options?.fetchOutputFile) {
+        return fetchOutput(validResponse, signal, retryPolicy)
       } else {
         return validResponse
       }
     } catch (error: any) {
-      throw error
+      throw toApiError(error, { operation: 'get', organizationName, jobId: transcriptionId })
     }
   }
 
@@ -155,45 +313,84 @@ export class SaladCloudTranscriptionSdk {
    *
    * @param organizationName - The organization name.
    * @param transcriptionId - The unique identifier for the transcription job.
+   * @param options - Optional per-call request options.
    * @returns A promise that resolves to void when the job is successfully stopped.
    */
-  async stop(organizationName: string, transcriptionId: string): Promise<void> {
+  async stop(organizationName: string, transcriptionId: string, options?: RequestOptions): Promise<void> {
     const request: StopTranscriptionRequest = { organizationName, transcriptionId }
 
-    // Validate the list request payload.
-    const validRequest = StopTranscriptionRequestSchema.parse(request)
-
     try {
-      await this.saladCloudSdk.inferenceEndpoints.deleteInferenceEndpointJob(
-        validRequest.organizationName,
-        transcribeInferenceEndpointName,
-        validRequest.transcriptionId,
+      // Validate the list request payload.
+      const validRequest = StopTranscriptionRequestSchema.parse(request)
+
+      await withRetry(
+        () =>
+          this.saladCloudSdk.inferenceEndpoints.deleteInferenceEndpointJob(
+            validRequest.organizationName,
+            transcribeInferenceEndpointName,
+            validRequest.transcriptionId,
+          ),
+        resolveRetryPolicy(this.retryPolicy, options?.retry),
       )
     } catch (error: any) {
-      throw error
+      throw toApiError(error, { operation: 'stop', organizationName, jobId: transcriptionId })
     }
   }
 
   /**
-   * Lists all transcription jobs for a given organization.
+   * Lists transcription jobs for a given organization.
+   *
+   * Filters are applied to the jobs of the requested page, so a filtered page may contain fewer jobs than the page size.
    *
    * @param organizationName - The organization name.
+   * @param options - Optional paging, filter and request options.
    * @returns A promise that resolves to a validated ListTranscriptionsResponse.
    */
-  async list(organizationName: string): Promise<ListTranscriptionsResponse> {
-    // Validate the list request payload.
-    const validRequest = ListTranscriptionsRequestSchema.parse({ organizationName })
+  async list(organizationName: string, options?: ListOptions): Promise<ListTranscriptionsResponse> {
+    const request: ListTranscriptionsRequest = { organizationName, page: options?.page, pageSize: options?.pageSize }
 
     try {
-      const response = await this.saladCloudSdk.inferenceEndpoints.listInferenceEndpointJobs(
-        validRequest.organizationName,
-        transcribeInferenceEndpointName,
+      // Validate the list request payload.
+      const validRequest = ListTranscriptionsRequestSchema.parse(request)
+
+      const response = await withRetry(
+        () =>
+          this.saladCloudSdk.inferenceEndpoints.listInferenceEndpointJobs(
+            validRequest.organizationName,
+            transcribeInferenceEndpointName,
+            { page: validRequest.page, pageSize: validRequest.pageSize },
+          ),
+        resolveRetryPolicy(this.retryPolicy, options?.retry),
       )
       const { data } = response
-      // Validate and return the list response.
-      return ListTranscriptionsResponseSchema.parse(data)
+      // Validate the list response.
+      const validResponse = ListTranscriptionsResponseSchema.parse(data)
+
+      return {
+        items: options ? filterTranscriptions(validResponse.items, options) : validResponse.items,
+        hasMore: validRequest.pageSize ? validResponse.items.length >= validRequest.pageSize : undefined,
+      }
     } catch (error: any) {
-      throw error
+      throw toApiError(error, { operation: 'list', organizationName })
+    }
+  }
+
+  /**
+   * Lazily iterates over all transcription jobs for a given organization, fetching one page at a time.
+   *
+   * @param organizationName - The organization name.
+   * @param options - Optional page size, filter and request options.
+   * @returns An async iterator over the matching transcription jobs.
+   */
+  async *listAll(organizationName: string, options?: ListAllOptions): AsyncGenerator<TranscribeResponse> {
+    const pageSize = options?.pageSize ?? defaultListPageSize
+
+    for (let page = 1; ; page++) {
+      const { items, hasMore } = await this.list(organizationName, { ...options, page, pageSize })
+      yield* items
+      if (!hasMore) {
+        return
+      }
     }
   }
 
@@ -201,19 +398,23 @@ export class SaladCloudTranscriptionSdk {
    * Processes a webhook request.
    *
    * @param payload - The raw payload received from the webhook request.
-   * @param base64Secret - The base64 encoded secret used for signature verification.
+   * @param base64Secret - The base64 encoded secret used for signature verification, or a list of secrets while
+   * rotating them. The event reports the id of the matching secret as `keyId`.
    * @param webhookId - The unique identifier provided in the webhook.
    * @param webhookTimestamp - The timestamp provided in the webhook.
    * @param webhookSignature - The signature provided in the webhook.
-   * @returns A promise that resolves to the result of the webhook verification.
+   * @param options - Optional The timestamp tolerance, and a replay store to reject deliveries that were already
+   * received. When handling a delivery fails, delete its ID from the replay store so the retried delivery is accepted.
+   * @returns A promise that resolves to the verified webhook event, with the job parsed like the result of `get`.
    */
   async processWebhookRequest(
     payload: any,
-    base64Secret: string,
+    base64Secret: string | WebhookSecret[],
     webhookId: string,
     webhookTimestamp: string,
     webhookSignature: string,
-  ): Promise<unknown> {
+    options?: WebhookVerificationOptions,
+  ): Promise<WebhookEvent> {
     const request: ProcessWebhookRequest = {
       payload,
       base64Secret,
@@ -222,17 +423,21 @@ export class SaladCloudTranscriptionSdk {
       webhookSignature,
     }
 
-    // Validate the request payload.
-    const validRequest = ProcessWebhookRequestSchema.parse(request)
+    try {
+      // Validate the request payload.
+      const validRequest = ProcessWebhookRequestSchema.parse(request)
 
-    const webhookHeaders = {
-      'webhook-id': validRequest.webhookId,
-      'webhook-timestamp': validRequest.webhookTimestamp,
-      'webhook-signature': validRequest.webhookSignature,
-    }
+      const webhookHeaders = {
+        'webhook-id': validRequest.webhookId,
+        'webhook-timestamp': validRequest.webhookTimestamp,
+        'webhook-signature': validRequest.webhookSignature,
+      }
 
-    const wh = new Webhook(validRequest.base64Secret)
-    return wh.verify(validRequest.payload, webhookHeaders)
+      const wh = new Webhook(validRequest.base64Secret, { toleranceInSeconds: options?.toleranceInSeconds })
+      return await verifyWebhookEvent(wh, validRequest.payload, webhookHeaders, options?.replayStore)
+    } catch (error) {
+      throw toApiError(error, { operation: 'processWebhookRequest' })
+    }
   }
 
   /**
@@ -240,56 +445,106 @@ export class SaladCloudTranscriptionSdk {
    *
    * This method continuously polls the status endpoint until the job reaches a
    * final state ("succeeded" or "failed"), the timeout is reached, or the operation is aborted.
+   * The polling interval, backoff and timeout are configurable through the wait options.
    *
    * @param organizationName - The organization name.
    * @param transcriptionId - The unique identifier for the transcription job.
    * @param signal - Optional An AbortSignal to cancel the polling operation.
+   * @param options - Optional wait options.
    * @returns A promise that resolves to a validated TranscribeResponse.
    */
-  async waitFor(organizationName: string, transcriptionId: string, signal?: AbortSignal): Promise<TranscribeResponse> {
+  async waitFor(
+    organizationName: string,
+    transcriptionId: string,
+    signal?: AbortSignal,
+    options?: WaitOptions,
+  ): Promise<TranscribeResponse> {
     const startTime = Date.now()
+    const timeoutMs = options?.timeoutMs ?? defaultWaitForTimeoutMs
+    const retryPolicy = resolveRetryPolicy(this.retryPolicy, options?.retry)
+    let lastStatus: Status | undefined
 
-    // Validate the get request payload.
+    // The get request payload is validated before the first poll.
     const request: GetTranscriptionRequest = { organizationName, transcriptionId }
-    const validRequest = GetTranscriptionRequestSchema.parse(request)
+    let validRequest: GetTranscriptionRequest
 
     // Define the polling function.
-    const poll = async (): Promise<TranscribeResponse> => {
+    const poll = async (attempt: number): Promise<TranscribeResponse> => {
       if (signal?.aborted) {
-        throw new Error('Operation aborted')
-      }
-      if (Date.now() - startTime > oneMinuteInMs * 3) {
-        throw new Error('Timeout waiting for transcription')
+        throw new AbortError()
       }
 
-      const response = await this.saladCloudSdk.inferenceEndpoints.getInferenceEndpointJob(
-        validRequest.organizationName,
-        transcribeInferenceEndpointName,
-        validRequest.transcriptionId,
+      const response = await withRetry(
+        () =>
+          this.saladCloudSdk.inferenceEndpoints.getInferenceEndpointJob(
+            validRequest.organizationName,
+            transcribeInferenceEndpointName,
+            validRequest.transcriptionId,
+          ),
+        retryPolicy,
+        signal,
       )
       const { data } = response
       // Validate the response payload.
       const validResponse = TranscribeResponseSchema.parse(data)
+      lastStatus = validResponse.status
+      options?.onProgress?.(validResponse.status, validResponse)
 
       // Return the response if the job is complete.
       if (validResponse.status === Status.Succeeded || validResponse.status === Status.Failed) {
+        if (options?.deleteUploadAfterCompletion) {
+          await this.deleteUpload(validRequest.organizationName, options.deleteUploadAfterCompletion, retryPolicy)
+        }
         // Throw an error if the response contains an error message.
-        if (validResponse.output?.error) {
+        if (validResponse.output && 'error' in validResponse.output) {
           throw new TranscriptionError(validResponse.id, validResponse.output.error)
+        } else if (options?.fetchOutputFile) {
+          return fetchOutput(validResponse, signal, retryPolicy)
         } else {
           return validResponse
         }
       }
 
-      // Otherwise, wait and poll again.
-      await new Promise((resolve) => setTimeout(resolve, oneSecondInMs * 5))
-      return poll()
+      // Otherwise, wait and poll again, without sleeping past the timeout. The poll at the deadline is the last one, so
+      // a job that finished while sleeping until then is still reported.
+      if (Date.now() - startTime >= timeoutMs) {
+        throw new WaitForTimeoutError(validRequest.transcriptionId, timeoutMs, lastStatus)
+      }
+      const delayMs = getBackoffDelay(
+        attempt,
+        options?.intervalMs ?? defaultWaitForIntervalMs,
+        options?.backoffMultiplier ?? 1,
+        options?.maxIntervalMs ?? defaultWaitForMaxIntervalMs,
+        options?.jitter ?? 0,
+      )
+      await sleep(Math.min(delayMs, Math.max(0, startTime + timeoutMs - Date.now())), signal)
+      return poll(attempt + 1)
     }
 
     try {
-      return poll()
+      validRequest = GetTranscriptionRequestSchema.parse(request)
+      return await poll(0)
     } catch (error) {
-      throw error
+      throw toApiError(error, { operation: 'waitFor', organizationName, jobId: transcriptionId })
+    }
+  }
+
+  /**
+   * Deletes the source file that `transcribe` uploaded for a transcription job from storage. Deduplicated uploads,
+   * which other jobs may share, are never deleted.
+   * Deleting is best effort: a file that is already gone or cannot be deleted does not fail the job.
+   *
+   * @param organizationName - The organization name.
+   * @param upload - The storage path of the upload, and whether it is deduplicated.
+   * @param retryPolicy - The retry policy for transient failures.
+   */
+  private async deleteUpload(
+    organizationName: string,
+    { storagePath, deduplicated }: Pick<TranscribeResponse, 'storagePath' | 'deduplicated'>,
+    retryPolicy: Required<RetryPolicy>,
+  ): Promise<void> {
+    if (storagePath && !deduplicated) {
+      await this.files.delete(organizationName, storagePath, { retry: retryPolicy }).catch(() => undefined)
     }
   }
 }
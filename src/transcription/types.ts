@@ -33,12 +33,301 @@ export enum EventAction {
   FAILED = 'failed',
 }
 
+/**
+ * The request context of a failed operation.
+ */
+export interface ErrorContext {
+  /** The name of the SDK operation, e.g. "transcribe" or "files.sign". */
+  operation?: string
+  /** The organization name. */
+  organizationName?: string
+  /** The transcription job ID. */
+  jobId?: string
+  /** The HTTP status of the failed response. */
+  status?: number
+}
+
+/**
+ * A validation failure of a single field.
+ */
+export interface ValidationIssue {
+  /** The dot-separated path of the field, or an empty string for the value itself. */
+  path: string
+  /** The validation message. */
+  message: string
+}
+
+/**
+ * Retry policy for transient failures of network calls.
+ */
+export interface RetryPolicy {
+  /**
+   * The maximum number of attempts, including the first one. Defaults to 3. Set to 1 to disable retries.
+   */
+  maxAttempts?: number
+  /**
+   * The delay in milliseconds before the first retry. Defaults to 500.
+   */
+  initialDelayMs?: number
+  /**
+   * The factor the delay grows by after each retry. Defaults to 2.
+   */
+  backoffMultiplier?: number
+  /**
+   * The upper bound of the delay in milliseconds, including delays requested by the `Retry-After` response header.
+   * Defaults to 30 seconds.
+   */
+  maxDelayMs?: number
+  /**
+   * The fraction (0 to 1) of each delay that is randomized in both directions. Defaults to 0.2.
+   */
+  jitter?: number
+  /**
+   * The HTTP statuses that are retried. Defaults to 408, 429, 500, 502, 503 and 504.
+   */
+  retryableStatuses?: number[]
+  /**
+   * The network error codes that are retried. Defaults to ECONNRESET, ECONNREFUSED, ECONNABORTED, ETIMEDOUT, EPIPE
+   * and EAI_AGAIN.
+   */
+  retryableErrorCodes?: string[]
+  /**
+   * Set to "true" (default) to wait as long as the `Retry-After` response header asks before retrying, up to
+   * `maxDelayMs`.
+   */
+  respectRetryAfter?: boolean
+}
+
+/**
+ * Enum representing the phase of an upload.
+ */
+export enum UploadPhase {
+  Creating = 'creating',
+  Uploading = 'uploading',
+  Completing = 'completing',
+  Signing = 'signing',
+}
+
+/**
+ * Enum representing the media container formats accepted for local files.
+ */
+export enum MediaContainer {
+  Wav = 'wav',
+  Mp3 = 'mp3',
+  Flac = 'flac',
+  Ogg = 'ogg',
+  /** MPEG-4 based containers, such as mp4, m4a and mov. */
+  Mp4 = 'mp4',
+  WebM = 'webm',
+  Mkv = 'mkv',
+  /** AAC audio in ADTS frames, e.g. .aac files. */
+  Aac = 'aac',
+  /** AIFF and AIFF-C audio. */
+  Aiff = 'aiff',
+  /** ASF based containers, such as wma and wmv. */
+  Asf = 'asf',
+  Avi = 'avi',
+}
+
+/**
+ * Options for validating local media files before they are uploaded.
+ */
+export interface MediaValidationOptions {
+  /**
+   * The maximum file size in bytes. Not enforced by default.
+   */
+  maxFileSizeBytes?: number
+}
+
+/**
+ * A validated local media file.
+ */
+export interface MediaFileInfo {
+  /** The absolute path of the file. */
+  filePath: string
+  /** The size of the file in bytes. */
+  size: number
+  /** The container format detected from the first bytes of the file. */
+  container: MediaContainer
+}
+
+/**
+ * Progress of an upload of a local file.
+ */
+export interface UploadProgress {
+  phase: UploadPhase
+  /** The number of bytes uploaded so far. */
+  bytesSent: number
+  /** The size of the file in bytes. Undefined for streams of unknown length until they are uploaded. */
+  totalBytes?: number
+  /** The part being uploaded, for multipart uploads. */
+  partNumber?: number
+}
+
+/**
+ * Options for uploading local files to SaladCloud storage.
+ */
+export interface UploadOptions {
+  /**
+   * Called whenever the upload of a local file makes progress or enters a new phase.
+   */
+  onUploadProgress?: (progress: UploadProgress) => void
+  /**
+   * Set to "true", or provide a checkpoint file path, to make multipart uploads resumable.
+   * The upload session and completed parts are saved to the checkpoint file, and an interrupted upload of the same
+   * unchanged file continues from there. By default, checkpoints are stored in the temporary directory.
+   */
+  resumable?: boolean | { checkpointPath?: string }
+  /**
+   * Files larger than this size in bytes are uploaded in parts. Defaults to, and cannot exceed, 100 MB.
+   */
+  multipartThresholdBytes?: number
+  /**
+   * The size in bytes of each part of a multipart upload. Defaults to 80 MB.
+   */
+  partSizeBytes?: number
+  /**
+   * The maximum number of parts uploaded at the same time. Defaults to 3.
+   * Multipart uploads hold up to `concurrency` × `partSizeBytes` of the file in memory.
+   */
+  concurrency?: number
+  /**
+   * Set to "true", or provide a cache, to deduplicate uploads of local files by their SHA-256 content hash.
+   * The hash is used as the storage file name, and a file that is already in storage is signed again instead of
+   * being uploaded. The cache remembers the storage paths of uploaded files by hash.
+   */
+  deduplicate?: boolean | { cache?: UploadCache }
+  /**
+   * The lifetime in seconds of the signed URL the transcription service downloads an upload from. Defaults to one day.
+   * Jobs that may wait in the queue for longer need a longer lifetime.
+   */
+  signedUrlExpirySeconds?: number
+  /**
+   * Set to "true" or provide validation options to validate local files before they are uploaded, so empty and
+   * unrecognized files are rejected before any upload. Not validated by default, as the service accepts more formats
+   * than the validation recognizes.
+   */
+  validateMedia?: boolean | MediaValidationOptions
+}
+
+/**
+ * A source uploaded to SaladCloud storage.
+ */
+export interface UploadedSource {
+  /** The signed URL the transcription service downloads the source from. */
+  url: string
+  /** The path of the upload within the organization's storage. */
+  storagePath: string
+  /** Set when the upload is stored under its content hash, so other jobs and the upload cache may share it. */
+  deduplicated?: boolean
+}
+
+/**
+ * A cache of the storage paths of uploaded files by their SHA-256 content hash.
+ */
+export interface UploadCache {
+  /**
+   * Returns the storage path of the file with the given hash, if known.
+   */
+  get(hash: string): Promise<string | undefined>
+  /**
+   * Records the storage path of the file with the given hash.
+   */
+  set(hash: string, storagePath: string): Promise<void>
+  /**
+   * Forgets the file with the given hash, e.g. because it no longer exists in storage.
+   */
+  delete(hash: string): Promise<void>
+}
+
+/**
+ * In-memory data or a stream to upload, with an optional file name and size hint.
+ */
+export interface TranscriptionDataSource {
+  /**
+   * The data to upload, e.g. a Node.js `Buffer` or `Readable` stream.
+   */
+  data: Blob | ArrayBuffer | Uint8Array | AsyncIterable<Uint8Array | string>
+  /**
+   * The file name of the upload. Defaults to the name of a `File`, or "file".
+   */
+  fileName?: string
+  /**
+   * The size of a stream in bytes, if known. Used to report the upload progress.
+   */
+  size?: number
+}
+
+/**
+ * A transcription source: a remote URL, a local file path (Node.js only), or in-memory data or a stream to upload.
+ * A `File` is uploaded under its name.
+ */
+export type TranscriptionSource =
+  | string
+  | Blob
+  | ArrayBuffer
+  | Uint8Array
+  | AsyncIterable<Uint8Array | string>
+  | TranscriptionDataSource
+
 /**
  * Transcription SDK config.
  */
 export interface SaladCloudTranscriptionSdkConfig {
   apiKey: string
   timeoutMs?: number
+  /**
+   * The retry policy applied to every network call. Can be overridden per call.
+   */
+  retry?: RetryPolicy
+  /**
+   * The options applied to every upload of a local file. Can be overridden per call.
+   */
+  upload?: UploadOptions
+  /**
+   * The base URL of the SaladCloud API, e.g. of a local `SaladCloudEmulator`. Defaults to
+   * "https://api.salad.com/api/public".
+   */
+  apiBaseUrl?: string
+  /**
+   * The base URL of the SaladCloud storage API, e.g. of a local `SaladCloudEmulator`. Defaults to
+   * "https://storage-api.salad.com".
+   */
+  storageBaseUrl?: string
+}
+
+/**
+ * Per-call request options.
+ */
+export interface RequestOptions {
+  /**
+   * Overrides the retry policy of the SDK config for this call.
+   */
+  retry?: RetryPolicy
+}
+
+/**
+ * Per-call transcribe request options.
+ */
+export interface TranscribeRequestOptions extends RequestOptions {
+  /**
+   * Overrides the upload options of the SDK config for this call.
+   */
+  upload?: UploadOptions
+}
+
+/**
+ * Checkpoint of a resumable multipart upload.
+ */
+export interface UploadCheckpoint {
+  organizationName: string
+  filePath: string
+  fileSize: number
+  mtimeMs: number
+  partSizeBytes: number
+  uniqueFileName: string
+  uploadId: string
+  parts: { etag: string; partNumber: number }[]
 }
 
 /**
@@ -49,6 +338,57 @@ export interface GetTranscriptionRequest {
   organizationName: string
 }
 
+/**
+ * Get transcription options.
+ */
+export interface GetOptions extends RequestOptions {
+  /**
+   * An AbortSignal to cancel the operation.
+   */
+  signal?: AbortSignal
+  /**
+   * Set to "true" to download and parse the output file when the transcription output is returned as a file URL,
+   * either because `returnAsFile` was set or because the output exceeded 1 MB.
+   */
+  fetchOutputFile?: boolean
+}
+
+/**
+ * Wait for transcription options.
+ */
+export interface WaitOptions extends Omit<GetOptions, 'signal'> {
+  /**
+   * The total time in milliseconds to wait for the job to reach a final state. Defaults to 3 minutes.
+   */
+  timeoutMs?: number
+  /**
+   * The delay in milliseconds between the first two polls. Defaults to 5 seconds.
+   */
+  intervalMs?: number
+  /**
+   * The factor the polling interval grows by after each poll. Defaults to 1 (a fixed interval).
+   */
+  backoffMultiplier?: number
+  /**
+   * The upper bound of the polling interval in milliseconds. Defaults to 1 minute.
+   */
+  maxIntervalMs?: number
+  /**
+   * The fraction (0 to 1) of each polling interval that is randomized in both directions. Defaults to 0.
+   */
+  jitter?: number
+  /**
+   * Called with the job status and the response on every poll.
+   */
+  onProgress?: (status: Status, response: TranscribeResponse) => void
+  /**
+   * The upload to delete from storage once the job reaches a final state: the result of `transcribe`, or its
+   * `storagePath` saved to wait for the job later, e.g. in another process. Deduplicated uploads, which other jobs and
+   * the upload cache may share, are never deleted, and neither are sources that were not uploaded.
+   */
+  deleteUploadAfterCompletion?: Pick<TranscribeResponse, 'storagePath' | 'deduplicated'>
+}
+
 /**
  * Stop (cancel) transcription interface.
  */
@@ -62,6 +402,54 @@ export interface StopTranscriptionRequest {
  */
 export interface ListTranscriptionsRequest {
   organizationName: string
+  page?: number
+  pageSize?: number
+}
+
+/**
+ * Filters applied to listed transcriptions.
+ */
+export interface ListFilters {
+  /**
+   * Only include jobs with this status, or with one of these statuses.
+   */
+  status?: Status | Status[]
+  /**
+   * Only include jobs created at or after this time.
+   */
+  createdAfter?: Date | string
+  /**
+   * Only include jobs created at or before this time.
+   */
+  createdBefore?: Date | string
+  /**
+   * Only include jobs whose metadata contains all of these key-value pairs.
+   */
+  metadata?: Record<string, unknown>
+}
+
+/**
+ * List transcriptions options.
+ */
+export interface ListOptions extends ListFilters, RequestOptions {
+  /**
+   * The page number, starting at 1.
+   */
+  page?: number
+  /**
+   * The maximum number of jobs per page.
+   */
+  pageSize?: number
+}
+
+/**
+ * List all transcriptions options.
+ */
+export interface ListAllOptions extends ListFilters, RequestOptions {
+  /**
+   * The number of jobs fetched per page. Defaults to 100.
+   */
+  pageSize?: number
 }
 
 /**
@@ -160,17 +548,198 @@ export interface TranscribeRequest {
   webhookUrl?: string
 }
 
+/**
+ * Batch transcription options.
+ */
+export interface TranscribeManyOptions extends TranscribeRequestOptions {
+  /**
+   * The transcription options applied to every source.
+   */
+  options?: TranscribeOptions
+  /**
+   * The webhook URL applied to every job.
+   */
+  webhookUrl?: string
+  /**
+   * The maximum number of sources uploaded and submitted at the same time. Defaults to 3.
+   */
+  concurrency?: number
+  /**
+   * Set to "true", or provide wait options, to wait for every job to reach a final state.
+   * Set to "false" (default) to return as soon as the jobs are created.
+   */
+  waitForCompletion?: boolean | TranscribeManyWaitOptions
+}
+
+/**
+ * Options for waiting for the jobs of a batch transcription.
+ */
+export interface TranscribeManyWaitOptions extends Omit<WaitOptions, 'deleteUploadAfterCompletion'> {
+  /**
+   * Set to "true" to delete the source that `transcribe` uploaded for each job once the job reaches a final state.
+   * Deduplicated uploads are never deleted.
+   */
+  deleteUploadAfterCompletion?: boolean
+}
+
+/**
+ * Result of a single source of a batch transcription.
+ */
+export type TranscribeManyResult =
+  | {
+      /** The position of the source in the batch. */
+      index: number
+      source: TranscriptionSource
+      success: true
+      id: string
+      response: TranscribeResponse
+    }
+  | {
+      /** The position of the source in the batch. */
+      index: number
+      source: TranscriptionSource
+      success: false
+      /** The job ID, set when the job was created but waiting for it failed. */
+      id?: string
+      error: unknown
+    }
+
 /**
  * Webhook request interface.
  */
 export interface ProcessWebhookRequest {
   payload: any
-  base64Secret: string
+  base64Secret: string | WebhookSecret[]
   webhookId: string
   webhookTimestamp: string
   webhookSignature: string
 }
 
+/**
+ * A verified webhook event of a transcription job.
+ */
+export interface WebhookEvent {
+  /** The unique identifier of the webhook delivery. */
+  webhookId: string
+  /** The time the webhook was sent. */
+  timestamp: Date
+  /** The event action. Actions unknown to this SDK version are passed through as they are. */
+  action: EventAction | string
+  /** The transcription job the event is about. */
+  data: TranscribeResponse
+  /** The id of the secret the delivery was signed with. */
+  keyId: string
+}
+
+/**
+ * A webhook signing secret: `whsec_`-prefixed or plain base64, or the raw key bytes. Secrets can be given an id, which
+ * verification reports when the secret matches; otherwise their id is their position in the list of secrets.
+ */
+export type WebhookSecret = string | Uint8Array | { keyId: string; secret: string | Uint8Array }
+
+/**
+ * A store of the webhook IDs seen recently, to reject deliveries that are replayed within the timestamp tolerance.
+ */
+export interface ReplayStore {
+  /**
+   * Records a webhook ID for the given number of seconds.
+   * Resolves to false if the ID is already recorded, i.e. the delivery is a replay.
+   */
+  add(webhookId: string, ttlSeconds: number): Promise<boolean>
+  /**
+   * Forgets a webhook ID, e.g. because handling its delivery failed and the delivery will be sent again.
+   */
+  delete(webhookId: string): Promise<void>
+}
+
+/**
+ * Options of webhook verification.
+ */
+export interface WebhookVerificationOptions {
+  /** How far the webhook timestamp may be from the current time, in seconds. Defaults to 5 minutes. */
+  toleranceInSeconds?: number
+  /** Optional A store of the webhook IDs seen recently. When set, replayed deliveries are rejected. */
+  replayStore?: ReplayStore
+}
+
+/**
+ * A handler of webhook events; the promise it returns is awaited.
+ */
+export type WebhookEventHandler = (event: WebhookEvent) => void | Promise<void>
+
+/**
+ * Word-level segment of a transcript.
+ */
+export interface TranscriptWord {
+  word: string
+  /** Start time of the word in seconds. */
+  start?: number
+  /** End time of the word in seconds. */
+  end?: number
+  /** Confidence score of the recognized word. */
+  score?: number
+  /** Speaker label, present when diarization is enabled. */
+  speaker?: string
+}
+
+/**
+ * Sentence-level segment of a transcript.
+ */
+export interface TranscriptSentence {
+  text: string
+  /** Start time of the sentence in seconds. */
+  start: number
+  /** End time of the sentence in seconds. */
+  end: number
+  /** Speaker label, present when sentence diarization is enabled. */
+  speaker?: string
+  words?: TranscriptWord[]
+}
+
+/**
+ * Structured transcript output of a succeeded transcription job.
+ */
+export interface TranscriptOutput {
+  text: string
+  durationInSeconds: number
+  duration: number
+  processingTime: number
+  /** Sentences with their timestamps, returned unless `sentenceLevelTimestamps` is disabled. */
+  sentenceLevelTimestamps?: TranscriptSentence[]
+  /** Words with their timestamps, returned when `wordLevelTimestamps` is enabled. */
+  wordSegments?: TranscriptWord[]
+  /** SRT captions, returned when `srt` is enabled. */
+  srtContent?: string
+  /** Summary, returned when `summarize` is greater than 0. */
+  summary?: string
+  /** LLM translations of the transcript keyed by target language. */
+  llmTranslation?: Record<string, string>
+  /** LLM translations of the SRT captions keyed by target language. */
+  srtTranslation?: Record<string, string>
+  /** Overall sentiment, returned when `overallSentimentAnalysis` is enabled. */
+  overallSentiment?: string
+  /** Overall classification, returned when `overallClassification` is enabled. */
+  overallClassification?: string
+}
+
+/**
+ * Output of a succeeded transcription job returned as a downloadable file.
+ */
+export interface TranscriptFileOutput {
+  url: string
+  durationInSeconds: number
+  duration: number
+  processingTime: number
+}
+
+/**
+ * Output of a failed transcription job.
+ */
+export interface TranscriptErrorOutput {
+  error: string
+  duration: number
+}
+
 /**
  * Transcribe response interface.
  */
@@ -203,25 +772,42 @@ export interface TranscribeResponse {
     time: string
   }>
   organizationName: string
-  output?:
-    | {
-        text: string
-        durationInSeconds: number
-        duration: number
-        processingTime: number
-      }
-    | {
-        url: string
-        durationInSeconds: number
-        duration: number
-        processingTime: number
-      }
-    | {
-        error: string
-        duration: number
-      }
+  output?: TranscriptOutput | TranscriptFileOutput | TranscriptErrorOutput
   createTime: string
   updateTime: string
+  /**
+   * The storage path of the uploaded source. Only set on the result of `transcribe` for sources it uploaded; pass it
+   * to `resignSource` to resubmit the job with a fresh URL without uploading again.
+   */
+  storagePath?: string
+  /**
+   * Set on the result of `transcribe` when the upload is deduplicated, so other jobs and the upload cache may share it.
+   */
+  deduplicated?: boolean
+}
+
+/**
+ * A file in SaladCloud storage.
+ */
+export interface StorageFile {
+  /** The path of the file within the organization's storage, e.g. the unique name of an upload. */
+  storagePath: string
+  /** The URL of the file. Downloading it requires the API key, or a signed URL. */
+  url: string
+  /** The size of the file in bytes. */
+  size: number
+}
+
+/**
+ * Metadata of a file in SaladCloud storage.
+ */
+export interface StorageFileMetadata {
+  storagePath: string
+  /** The size of the file in bytes. */
+  size?: number
+  contentType?: string
+  lastModified?: Date
+  etag?: string
 }
 
 /**
@@ -229,4 +815,70 @@ export interface TranscribeResponse {
  */
 export interface ListTranscriptionsResponse {
   items: TranscribeResponse[]
+  /**
+   * Whether more pages may follow. Only set when a page size was requested.
+   */
+  hasMore?: boolean
+}
+
+/**
+ * The lifecycle of a fake transcription job: pending, then running, then succeeded or failed.
+ *
+ * By default, the job advances when it is polled. If `pendingMs` or `runningMs` is set, it advances with time instead:
+ * the virtual clock of `FakeSaladCloudTranscriptionSdk`, or the real clock of `SaladCloudEmulator`.
+ */
+export interface FakeTranscriptionScript {
+  /** Optional The final status of the job. Defaults to succeeded. */
+  status?: Status.Succeeded | Status.Failed
+  /** Optional The number of polls that report the job as pending. Defaults to 1. */
+  pendingPolls?: number
+  /** Optional The number of polls that report the job as running. Defaults to 1. */
+  runningPolls?: number
+  /** Optional How long the job is pending, in milliseconds. */
+  pendingMs?: number
+  /** Optional How long the job is running, in milliseconds. */
+  runningMs?: number
+  /** Optional The output of a succeeded job. Defaults to a short transcript. */
+  output?: TranscriptOutput | TranscriptFileOutput
+  /** Optional The error message of a failed job. Defaults to "Transcription failed". */
+  error?: string
+  /** Optional The metadata of the job, e.g. to test filters of `list`. */
+  metadata?: Record<string, unknown>
+}
+
+/**
+ * A fault that `SaladCloudEmulator` injects into matching requests, e.g. to test retries and timeouts.
+ */
+export interface EmulatorFault {
+  /** Optional The HTTP method of the affected requests, e.g. "PUT". Defaults to any method. */
+  method?: string
+  /** Optional The path of the affected requests: a part of the path, or a pattern. Defaults to any path. */
+  path?: string | RegExp
+  /** Optional How long to delay the affected requests, in milliseconds. */
+  latencyMs?: number
+  /** Optional The error status to respond with instead of handling the request, e.g. 503. */
+  status?: number
+  /** Optional The `Retry-After` header of the error response, in seconds. */
+  retryAfterSeconds?: number
+  /** Optional The number of requests the fault affects. Defaults to every matching request. */
+  times?: number
+}
+
+/**
+ * Options of the local emulator of the SaladCloud storage and inference APIs.
+ */
+export interface SaladCloudEmulatorOptions {
+  /** Optional The port to listen on. Defaults to a free port. */
+  port?: number
+  /** Optional The host to listen on. Defaults to "127.0.0.1". */
+  host?: string
+  /** Optional The API key requests must send. Defaults to accepting any API key. */
+  apiKey?: string
+  /**
+   * Optional The lifecycle of submitted jobs, or a function returning the lifecycle of a job from its input, e.g. to
+   * fail jobs of a specific source URL.
+   */
+  script?: FakeTranscriptionScript | ((input: Record<string, unknown>) => FakeTranscriptionScript)
+  /** Optional The faults to inject from the start. */
+  faults?: EmulatorFault[]
 }
@@ -0,0 +1,20 @@
+import { UploadCache } from './types'
+
+/**
+ * An upload cache that keeps the storage paths in memory, for the lifetime of the process.
+ */
+export class InMemoryUploadCache implements UploadCache {
+  private storagePaths = new Map<string, string>()
+
+  async get(hash: string): Promise<string | undefined> {
+    return this.storagePaths.get(hash)
+  }
+
+  async set(hash: string, storagePath: string): Promise<void> {
+    this.storagePaths.set(hash, storagePath)
+  }
+
+  async delete(hash: string): Promise<void> {
+    this.storagePaths.delete(hash)
+  }
+}
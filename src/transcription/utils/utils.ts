@@ -1,4 +1,54 @@
-import { TranscribeRequest } from '../types'
+import axios, { AxiosInstance, AxiosProgressEvent } from 'axios'
+import { ZodError } from 'zod'
+import {
+  defaultRetryableErrorCodes,
+  defaultRetryableStatuses,
+  defaultRetryBackoffMultiplier,
+  defaultRetryInitialDelayMs,
+  defaultRetryJitter,
+  defaultRetryMaxAttempts,
+  defaultRetryMaxDelayMs,
+  defaultUploadConcurrency,
+  defaultUploadFileName,
+  nonIdempotentRetryableErrorCodes,
+  nonIdempotentRetryableStatuses,
+  oneDayInSeconds,
+} from '../constants'
+import {
+  AbortError,
+  ApiError,
+  AuthenticationError,
+  CustomError,
+  FetchOutputError,
+  NotFoundError,
+  RateLimitError,
+  ServerError,
+  SignFileError,
+  TranscriptionError,
+  UploadError,
+  ValidationError,
+} from '../errors'
+import { TranscriptErrorOutputSchema, TranscriptOutputSchema, UploadOptionsSchema } from '../schema'
+import {
+  ErrorContext,
+  ListFilters,
+  MediaFileInfo,
+  MediaValidationOptions,
+  RetryPolicy,
+  TranscribeRequest,
+  TranscribeResponse,
+  TranscriptionSource,
+  UploadCache,
+  UploadedSource,
+  UploadOptions,
+  UploadPhase,
+  UploadProgress,
+  ValidationIssue,
+} from '../types'
+
+interface UploadFileResponse {
+  url: string
+}
 
 /**
  * Transforms a transcribe request to the API-expected format.
@@ -30,6 +80,36 @@ export const transformTranscribeRequest = (transcribeRequest: TranscribeRequest)
   }
 }
 
+/**
+ * Filters transcriptions by status, creation time and metadata.
+ *
+ * @param items - The transcriptions to filter.
+ * @param filters - The filters; all of them must match.
+ * @returns The matching transcriptions.
+ */
+export const filterTranscriptions = (items: TranscribeResponse[], filters: ListFilters): TranscribeResponse[] => {
+  const statuses = filters.status === undefined ? undefined : ([] as string[]).concat(filters.status)
+  const createdAfter = filters.createdAfter === undefined ? undefined : new Date(filters.createdAfter).getTime()
+  const createdBefore = filters.createdBefore === undefined ? undefined : new Date(filters.createdBefore).getTime()
+
+  return items.filter((item) => {
+    if (statuses && !statuses.includes(item.status)) {
+      return false
+    }
+    const createTime = Date.parse(item.createTime)
+    if (createdAfter !== undefined && !(createTime >= createdAfter)) {
+      return false
+    }
+    if (createdBefore !== undefined && !(createTime <= createdBefore)) {
+      return false
+    }
+    if (filters.metadata) {
+      return Object.entries(filters.metadata).every(([key, value]) => item.metadata?.[key] === value)
+    }
+    return true
+  })
+}
+
 /**
  * Checks if the provided source string is a remote URL.
  *
@@ -46,21 +126,1005 @@ export const isRemoteFile = (source: string): boolean => {
 }
 
 /**
- * This function is intended for retrieving the transcription source from a local file.
- * However, in browser environments, local file system access is not supported.
+ * Waits for the given number of milliseconds.
+ *
+ * @param ms - The number of milliseconds to wait.
+ * @param signal - Optional An AbortSignal to cancel the wait.
+ * @returns A promise that resolves after the delay, or rejects when the operation is aborted.
+ */
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new AbortError())
+      return
+    }
+    const onAbort = () => {
+      clearTimeout(timeout)
+      reject(new AbortError())
+    }
+    const timeout = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+
+/**
+ * Calculates an exponential backoff delay with optional jitter.
+ *
+ * @param attempt - The zero-based attempt number.
+ * @param initialDelayMs - The delay of the first attempt in milliseconds.
+ * @param multiplier - The factor the delay grows by with each attempt.
+ * @param maxDelayMs - The upper bound of the delay before jitter is applied.
+ * @param jitter - The fraction (0 to 1) of the delay that is randomized in both directions.
+ * @returns The delay in milliseconds.
+ */
+export const getBackoffDelay = (
+  attempt: number,
+  initialDelayMs: number,
+  multiplier: number,
+  maxDelayMs: number,
+  jitter: number,
+): number => {
+  const delay = Math.min(initialDelayMs * Math.pow(multiplier, attempt), maxDelayMs)
+  const boundedJitter = Math.min(Math.max(jitter, 0), 1)
+  return Math.round(delay * (1 + boundedJitter * (2 * Math.random() - 1)))
+}
+
+/**
+ * Merges retry policies over the defaults. Later policies take precedence.
+ *
+ * @param policies - The retry policies, e.g. from the SDK config and a per-call override.
+ * @returns The complete retry policy.
+ */
+export const resolveRetryPolicy = (...policies: Array<RetryPolicy | undefined>): Required<RetryPolicy> => {
+  const resolved: Required<RetryPolicy> = {
+    maxAttempts: defaultRetryMaxAttempts,
+    initialDelayMs: defaultRetryInitialDelayMs,
+    backoffMultiplier: defaultRetryBackoffMultiplier,
+    maxDelayMs: defaultRetryMaxDelayMs,
+    jitter: defaultRetryJitter,
+    retryableStatuses: defaultRetryableStatuses,
+    retryableErrorCodes: defaultRetryableErrorCodes,
+    respectRetryAfter: true,
+  }
+  for (const policy of policies) {
+    for (const [key, value] of Object.entries(policy ?? {})) {
+      if (value !== undefined) {
+        ;(resolved as Record<string, unknown>)[key] = value
+      }
+    }
+  }
+  return resolved
+}
+
+/**
+ * Restricts a retry policy to the failures that guarantee a request was not processed, for requests that must not be
+ * repeated. Retrying a job creation after a 5xx response or a dropped connection could create a duplicate job.
+ *
+ * @param policy - The complete retry policy.
+ * @returns The retry policy without the ambiguous statuses and error codes.
+ */
+export const getNonIdempotentRetryPolicy = (policy: Required<RetryPolicy>): Required<RetryPolicy> => ({
+  ...policy,
+  retryableStatuses: policy.retryableStatuses.filter((status) => nonIdempotentRetryableStatuses.includes(status)),
+  retryableErrorCodes: policy.retryableErrorCodes.filter((code) => nonIdempotentRetryableErrorCodes.includes(code)),
+})
+
+/**
+ * Returns the HTTP status of an axios or SaladCloud SDK error, if any.
+ *
+ * @param error - The error.
+ * @returns The HTTP status.
+ */
+export const getErrorStatus = (error: any): number | undefined =>
+  error?.response?.status ?? error?.metadata?.status ?? (typeof error?.status === 'number' ? error.status : undefined)
+
+/**
+ * Returns the delay requested by the `Retry-After` header of an error response, if any.
+ *
+ * @param error - The error.
+ * @returns The delay in milliseconds.
+ */
+export const getRetryAfterMs = (error: any): number | undefined => {
+  const headers = error?.response?.headers ?? error?.metadata?.headers
+  const retryAfter = typeof headers?.get === 'function' ? headers.get('retry-after') : headers?.['retry-after']
+  if (retryAfter === undefined || retryAfter === null || retryAfter === '') {
+    return undefined
+  }
+  const seconds = Number(retryAfter)
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000)
+  }
+  const date = Date.parse(retryAfter)
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now())
+}
+
+/**
+ * Checks whether an error was caused by cancelling a request.
+ *
+ * @param error - The error.
+ * @returns True if the request was cancelled.
+ */
+const isAbortError = (error: any): boolean =>
+  error?.name === 'AbortError' || error?.name === 'CanceledError' || error?.code === 'ERR_CANCELED'
+
+/**
+ * Reads the validation issues from the body of a rejected request: the problem description followed by the field
+ * errors, given either as a map of field names to messages or as a list of `{ path, message }` entries.
+ *
+ * @param error - The axios or SaladCloud SDK error of the rejected request.
+ * @returns The validation issues, or the error message if the body describes none.
+ */
+const getValidationIssues = (error: any): ValidationIssue[] => {
+  // Axios keeps the body in `response.data`, while the SaladCloud SDK keeps the parsed problem details in `response`.
+  const body = error?.isAxiosError ? error.response?.data : error?.response
+  const issues: ValidationIssue[] = []
+  const message = body?.detail ?? body?.message ?? body?.title
+  if (typeof message === 'string' && message) {
+    issues.push({ path: '', message })
+  }
+  const fieldErrors = body?.errors
+  if (Array.isArray(fieldErrors)) {
+    for (const fieldError of fieldErrors) {
+      const path = fieldError?.path ?? fieldError?.field ?? ''
+      issues.push({ path: String(path), message: String(fieldError?.message ?? fieldError) })
+    }
+  } else if (fieldErrors && typeof fieldErrors === 'object') {
+    for (const [path, messages] of Object.entries(fieldErrors)) {
+      for (const fieldMessage of [messages].flat()) {
+        issues.push({ path, message: String(fieldMessage) })
+      }
+    }
+  }
+  return issues.length > 0 ? issues : [{ path: '', message: error?.message ?? 'Invalid request' }]
+}
+
+/**
+ * Converts a failed HTTP request into the error type of its status.
+ *
+ * @param error - The axios or SaladCloud SDK error of the failed request.
+ * @param context - The request context of the operation.
+ * @param cause - The error to keep as the cause, e.g. the upload error wrapping the failed request.
+ * @returns The typed error, or undefined if the error carries no HTTP status.
+ */
+const toStatusError = (error: any, context: ErrorContext, cause: any = error): ApiError | undefined => {
+  const status = getErrorStatus(error)
+  if (status === undefined) {
+    return undefined
+  }
+  const statusContext = { ...context, status }
+  if (status === 401 || status === 403) {
+    return new AuthenticationError(statusContext, cause)
+  } else if (status === 404) {
+    return new NotFoundError(statusContext, cause)
+  } else if (status === 429) {
+    return new RateLimitError(statusContext, getRetryAfterMs(error), cause)
+  } else if (status >= 500) {
+    return new ServerError(statusContext, cause)
+  } else if (status === 400 || status === 422) {
+    return new ValidationError(getValidationIssues(error), statusContext, cause)
+  }
+  return new ApiError(cause?.message ?? `Request failed with status ${status}`, statusContext, cause)
+}
+
+/**
+ * Converts the error of a failed operation into the matching typed error with the request context.
+ *
+ * HTTP errors map to the error type of their status, zod errors to a `ValidationError` and cancelled requests to an
+ * `AbortError`. Upload and sign errors of failed HTTP requests map to the error type of the request's status, keeping
+ * the upload or sign error as the cause. Typed API errors get the missing context filled in; other errors are returned
+ * unchanged.
+ *
+ * @param error - The error.
+ * @param context - The request context of the operation.
+ * @returns The typed error.
+ */
+export const toApiError = (error: unknown, context: ErrorContext): unknown => {
+  if (error instanceof ApiError) {
+    error.operation = error.operation ?? context.operation
+    error.organizationName = error.organizationName ?? context.organizationName
+    error.jobId = error.jobId ?? context.jobId
+    return error
+  }
+  if (error instanceof UploadError || error instanceof SignFileError) {
+    return isAbortError(error.cause) ? new AbortError(context) : (toStatusError(error.cause, context, error) ?? error)
+  }
+  if (error instanceof CustomError) {
+    return error
+  }
+  if (error instanceof ZodError) {
+    const issues = error.issues.map((issue) => ({ path: issue.path.join('.'), message: issue.message }))
+    return new ValidationError(issues, context, error)
+  }
+  if (isAbortError(error)) {
+    return new AbortError(context)
+  }
+  return toStatusError(error, context) ?? error
+}
+
+/**
+ * Checks whether an error is a transient failure that the retry policy allows to retry.
+ * Errors wrapping another error through `cause` are checked by their cause.
+ *
+ * @param error - The error.
+ * @param policy - The retry policy.
+ * @returns True if the failed call can be retried.
+ */
+export const isRetryableError = (error: any, policy: Required<RetryPolicy>): boolean => {
+  if (error?.cause && error.cause !== error) {
+    return isRetryableError(error.cause, policy)
+  }
+  const status = getErrorStatus(error)
+  if (status !== undefined) {
+    return policy.retryableStatuses.includes(status)
+  }
+  return typeof error?.code === 'string' && policy.retryableErrorCodes.includes(error.code)
+}
+
+/**
+ * Runs an operation and retries it on transient failures according to the retry policy.
+ *
+ * @param operation - The operation to run; receives the zero-based attempt number.
+ * @param policy - The retry policy.
+ * @param signal - Optional An AbortSignal to cancel waiting between attempts.
+ * @returns A promise that resolves to the result of the first successful attempt.
+ */
+export const withRetry = async <T>(
+  operation: (attempt: number) => Promise<T>,
+  policy: Required<RetryPolicy>,
+  signal?: AbortSignal,
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation(attempt)
+    } catch (error: any) {
+      if (attempt + 1 >= policy.maxAttempts || signal?.aborted || !isRetryableError(error, policy)) {
+        throw error
+      }
+      const backoffMs = getBackoffDelay(
+        attempt,
+        policy.initialDelayMs,
+        policy.backoffMultiplier,
+        policy.maxDelayMs,
+        policy.jitter,
+      )
+      // A requested delay is capped like the backoff, so a large `Retry-After` cannot stall the call for hours.
+      const retryAfterMs = policy.respectRetryAfter ? getRetryAfterMs(error.cause ?? error) : undefined
+      await sleep(retryAfterMs === undefined ? backoffMs : Math.min(retryAfterMs, policy.maxDelayMs), signal)
+    }
+  }
+}
+
+/**
+ * Fetches and parses the output file of a transcription job.
  *
- * For browsers, this function will always reject with an error.
+ * Jobs created with `returnAsFile`, or whose output exceeds 1 MB, return a URL to the output file instead of the
+ * transcript. This downloads the file and validates it with the same schema as inline outputs, so the returned
+ * response has the same shape either way. Responses without a file output are returned unchanged.
+ *
+ * @param response - The transcription response.
+ * @param signal - Optional An AbortSignal to cancel the operation.
+ * @param retryPolicy - Optional retry policy for the download.
+ * @returns A promise that resolves to the transcription response with the parsed transcript output.
+ */
+export const fetchOutput = async (
+  response: TranscribeResponse,
+  signal?: AbortSignal,
+  retryPolicy?: RetryPolicy,
+): Promise<TranscribeResponse> => {
+  const { output } = response
+  if (!output || !('url' in output)) {
+    return response
+  }
+
+  let data: unknown
+  try {
+    const fileResponse = await withRetry(
+      () => axios.get(output.url, { responseType: 'json', signal }),
+      resolveRetryPolicy(retryPolicy),
+      signal,
+    )
+    data = typeof fileResponse.data === 'string' ? JSON.parse(fileResponse.data) : fileResponse.data
+  } catch (error: any) {
+    throw new FetchOutputError(response.id, error.message, error)
+  }
+
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new FetchOutputError(response.id, 'The output file is not a JSON object')
+  }
+
+  // An output file with an error reports a failed transcription, like an inline error output.
+  const errorOutput = TranscriptErrorOutputSchema.safeParse({ duration: output.duration, ...data })
+  if (errorOutput.success) {
+    throw new TranscriptionError(response.id, errorOutput.data.error)
+  }
+
+  // The output file may omit the timing fields that are already present on the response.
+  const transcriptOutput = TranscriptOutputSchema.safeParse({
+    duration_in_seconds: output.durationInSeconds,
+    duration: output.duration,
+    processing_time: output.processingTime,
+    ...data,
+  })
+  if (!transcriptOutput.success) {
+    const issues = transcriptOutput.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`)
+    throw new FetchOutputError(
+      response.id,
+      `The output file is not a valid transcript (${issues.join(', ')})`,
+      transcriptOutput.error,
+    )
+  }
+
+  return { ...response, output: transcriptOutput.data }
+}
+
+/**
+ * Runs a task for each index with at most `concurrency` tasks running at the same time.
+ *
+ * A task is only started once a running one finishes, and no new task is started after one fails.
+ *
+ * @param count - The number of tasks.
+ * @param concurrency - The maximum number of tasks running at the same time.
+ * @param task - Async callback run for each index, from 0 to `count - 1`.
+ * @param signal - Optional An AbortSignal to cancel the operation.
+ * @returns A promise that resolves to the task results, in index order.
+ */
+export const mapWithConcurrency = async <T>(
+  count: number,
+  concurrency: number,
+  task: (index: number) => Promise<T>,
+  signal?: AbortSignal,
+): Promise<T[]> => {
+  const results: T[] = new Array(count)
+  let nextIndex = 0
+  let failed = false
+
+  // Each worker takes the next index and runs its task before taking another one.
+  const worker = async (): Promise<void> => {
+    while (nextIndex < count && !failed) {
+      const index = nextIndex++
+      if (signal?.aborted) {
+        throw new AbortError()
+      }
+      results[index] = await task(index)
+    }
+  }
+
+  await Promise.all(
+    Array.from({ length: Math.max(1, Math.min(concurrency, count)) }, () =>
+      worker().catch((error) => {
+        // Stop the other workers from taking new tasks.
+        failed = true
+        throw error
+      }),
+    ),
+  )
+  return results
+}
+
+/**
+ * Creates a progress reporter for an upload that sends several parts, possibly at the same time.
+ *
+ * @param totalBytes - The total number of bytes to upload, or undefined if unknown.
+ * @param onUploadProgress - Optional Called whenever the upload makes progress or enters a new phase.
+ * @returns The bytes sent per part, and the function reporting the sum of them.
+ */
+export const createUploadProgressReporter = (
+  totalBytes: number | undefined,
+  onUploadProgress?: (progress: UploadProgress) => void,
+): {
+  partBytesSent: Map<number, number>
+  reportProgress: (phase: UploadPhase, partNumber?: number) => void
+} => {
+  // Track the bytes sent per part, so retried parts restart their count instead of adding to it.
+  const partBytesSent = new Map<number, number>()
+  const reportProgress = (phase: UploadPhase, partNumber?: number) => {
+    if (onUploadProgress) {
+      let bytesSent = 0
+      partBytesSent.forEach((partBytes) => (bytesSent += partBytes))
+      onUploadProgress({
+        phase,
+        bytesSent: totalBytes === undefined ? bytesSent : Math.min(bytesSent, totalBytes),
+        totalBytes,
+        partNumber,
+      })
+    }
+  }
+  return { partBytesSent, reportProgress }
+}
+
+/**
+ * Signs a file.
  *
  * @param axiosInstance - The axios instance configured for API requests.
- * @param source - The file source, which may be a local path or remote URL.
+ * @param url - The sign file endpoint URL.
+ * @param fileName - The name of the file, for error messages.
+ * @param signal - Optional An AbortSignal to cancel the operation.
+ * @param retryPolicy - Optional The retry policy for transient failures.
+ * @param expSeconds - Optional The lifetime of the signed URL in seconds. Defaults to one day.
+ * @returns A promise that resolves to the signed file response.
+ */
+export const signFile = async (
+  axiosInstance: AxiosInstance,
+  url: string,
+  fileName: string,
+  signal?: AbortSignal,
+  retryPolicy: Required<RetryPolicy> = resolveRetryPolicy(),
+  expSeconds = oneDayInSeconds,
+): Promise<UploadFileResponse> => {
+  const requestBody = {
+    method: 'GET',
+    exp: expSeconds,
+  }
+
+  try {
+    const response = await withRetry(
+      () => axiosInstance.post(url, requestBody, { signal: signal }),
+      retryPolicy,
+      signal,
+    )
+    return response.data
+  } catch (error: any) {
+    throw new SignFileError(fileName, error.message, error)
+  }
+}
+
+/**
+ * Extracts the storage path of a file from its storage or signed URL.
+ *
+ * @param url - The file URL, e.g. the source URL of a transcription job.
+ * @param organizationName - The organization the file must belong to.
+ * @param storageBaseUrl - Optional The storage API base URL the file must be hosted on.
+ * @returns The storage path, or undefined if the URL is not a file of the organization's storage.
+ */
+export const getStoragePathFromUrl = (
+  url: string,
+  organizationName: string,
+  storageBaseUrl?: string,
+): string | undefined => {
+  let parsedUrl: URL
+  try {
+    parsedUrl = new URL(url, storageBaseUrl)
+  } catch {
+    return undefined
+  }
+  if (storageBaseUrl && parsedUrl.host !== new URL(storageBaseUrl).host) {
+    return undefined
+  }
+
+  const match = parsedUrl.pathname.match(/^\/organizations\/([^/]+)\/(?:files|file_tokens)\/(.+)$/)
+  if (!match || decodeURIComponent(match[1]) !== organizationName) {
+    return undefined
+  }
+  return decodeURIComponent(match[2])
+}
+
+/**
+ * Checks whether a file exists in storage.
+ *
+ * @param axiosInstance - The axios instance configured for API requests.
+ * @param url - The file URL.
+ * @param signal - Optional An AbortSignal to cancel the operation.
+ * @param retryPolicy - Optional The retry policy for transient failures.
+ * @returns A promise that resolves to true if the file exists.
+ */
+export const storageFileExists = async (
+  axiosInstance: AxiosInstance,
+  url: string,
+  signal?: AbortSignal,
+  retryPolicy: Required<RetryPolicy> = resolveRetryPolicy(),
+): Promise<boolean> => {
+  try {
+    await withRetry(() => axiosInstance.head(url, { signal: signal }), retryPolicy, signal)
+    return true
+  } catch (error) {
+    if (getErrorStatus(error) === 404) {
+      return false
+    }
+    throw error
+  }
+}
+
+/**
+ * Initiates a multipart upload.
+ * @param axiosInstance - The Axios instance for making HTTP requests.
+ * @param url - The upload URL.
+ * @param signal - Optional An AbortSignal to cancel the operation.
+ * @param retryPolicy - Optional The retry policy for transient failures.
+ * @returns The uploadId.
+ */
+export const createUpload = async (
+  axiosInstance: AxiosInstance,
+  url: string,
+  signal?: AbortSignal,
+  retryPolicy: Required<RetryPolicy> = resolveRetryPolicy(),
+): Promise<string> => {
+  const response = await withRetry(() => axiosInstance.put(url, null, { signal: signal }), retryPolicy, signal)
+  const { uploadId } = response.data
+  return uploadId
+}
+
+/**
+ * Uploads a single part (chunk) of the file.
+ * @param axiosInstance - The Axios instance for making HTTP requests.
+ * @param url - The upload URL.
+ * @param uploadId - The ID of the current multipart upload session.
+ * @param partNumber - The sequential part number.
+ * @param part - The chunk to be uploaded.
+ * @param signal - Optional An AbortSignal to cancel the operation.
+ * @param retryPolicy - Optional The retry policy for transient failures.
+ * @param onUploadProgress - Optional Called with the number of bytes of this part sent so far.
+ * @returns The response data for this part, which should contain at least an etag and partNumber.
+ */
+export const uploadPart = async (
+  axiosInstance: AxiosInstance,
+  url: string,
+  uploadId: string,
+  partNumber: number,
+  part: Blob | Uint8Array,
+  signal?: AbortSignal,
+  retryPolicy: Required<RetryPolicy> = resolveRetryPolicy(),
+  onUploadProgress?: (bytesSent: number) => void,
+): Promise<{ etag: string; partNumber: number }> => {
+  const partUrl = `${url}?uploadId=${uploadId}&partNumber=${partNumber}`
+  // Axios sends the whole underlying buffer of a typed array, so a view of part of a buffer is copied first.
+  const body =
+    part instanceof Uint8Array && (part.byteOffset !== 0 || part.byteLength !== part.buffer.byteLength)
+      ? part.slice()
+      : part
+  const response = await withRetry(
+    () =>
+      axiosInstance.put(partUrl, body, {
+        headers: {
+          'Content-Type': 'application/octet-stream',
+        },
+        signal: signal,
+        ...(onUploadProgress && { onUploadProgress: (event: AxiosProgressEvent) => onUploadProgress(event.loaded) }),
+      }),
+    retryPolicy,
+    signal,
+  )
+  return response.data
+}
+
+/**
+ * Completes the multipart upload to combine all parts.
+ * @param axiosInstance - The Axios instance for making HTTP requests.
+ * @param url - The upload URL.
+ * @param uploadId - The ID of the current multipart upload session.
+ * @param parts - Array of part information objects (each contains etag and partNumber).
+ * @param signal - Optional An AbortSignal to cancel the operation.
+ * @param retryPolicy - Optional The retry policy for transient failures.
+ * @returns Response to the complete upload request.
+ */
+export const completeUpload = async (
+  axiosInstance: AxiosInstance,
+  url: string,
+  uploadId: string,
+  parts: { etag: string; partNumber: number }[],
+  signal?: AbortSignal,
+  retryPolicy: Required<RetryPolicy> = resolveRetryPolicy(),
+): Promise<any> => {
+  const completeUrl = `${url}?action=mpu-complete&uploadId=${uploadId}`
+  const response = await withRetry(
+    () =>
+      axiosInstance.put(completeUrl, JSON.stringify({ parts }), {
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        signal: signal,
+      }),
+    retryPolicy,
+    signal,
+  )
+  return response
+}
+
+/**
+ * Uploads in-memory data with a single request.
+ *
+ * @param axiosInstance - The axios instance configured for API requests.
+ * @param url - The upload URL.
+ * @param data - The data to upload.
+ * @param fileName - The file name sent with the data.
+ * @param signal - Optional An AbortSignal to cancel the operation.
+ * @param onUploadProgress - Optional Called with the number of bytes sent so far.
+ * @returns A promise that resolves to the upload file response.
+ */
+export const uploadData = async (
+  axiosInstance: AxiosInstance,
+  url: string,
+  data: Blob | Uint8Array,
+  fileName: string,
+  signal?: AbortSignal,
+  onUploadProgress?: (bytesSent: number) => void,
+): Promise<UploadFileResponse> => {
+  const formData = new FormData()
+  formData.append('file', data instanceof Blob ? data : new Blob([data]), fileName)
+
+  try {
+    const response = await axiosInstance.put(url, formData, {
+      signal: signal,
+      ...(onUploadProgress && { onUploadProgress: (event: AxiosProgressEvent) => onUploadProgress(event.loaded) }),
+    })
+    return response.data
+  } catch (error: any) {
+    throw new UploadError(fileName, error.message, error)
+  }
+}
+
+/**
+ * Uploads parts with at most `concurrency` parts in flight, pulling the next part only once a slot is free.
+ *
+ * @param axiosInstance - The Axios instance for making HTTP requests.
+ * @param uniqueFileName - The name and uid of the file being uploaded.
+ * @param parts - The parts to upload, in order.
+ * @param organizationName - The name of the organization (used in URL paths).
+ * @param totalBytes - The total size in bytes, or undefined if unknown.
+ * @param signal - Optional An AbortSignal to cancel the operation.
+ * @param retryPolicy - Optional The retry policy for transient failures.
+ * @param onUploadProgress - Optional Called whenever the upload makes progress or enters a new phase.
+ * @param concurrency - Optional The maximum number of parts uploaded at the same time.
+ */
+export const uploadDataInParts = async (
+  axiosInstance: AxiosInstance,
+  uniqueFileName: string,
+  parts: Iterable<Blob | Uint8Array> | AsyncIterable<Blob | Uint8Array>,
+  organizationName: string,
+  totalBytes: number | undefined,
+  signal?: AbortSignal,
+  retryPolicy: Required<RetryPolicy> = resolveRetryPolicy(),
+  onUploadProgress?: (progress: UploadProgress) => void,
+  concurrency = defaultUploadConcurrency,
+): Promise<void> => {
+  const filesUploadUrl = `/organizations/${organizationName}/files/${uniqueFileName}`
+  const filePartsUploadUrl = `/organizations/${organizationName}/file_parts/${uniqueFileName}`
+  const { partBytesSent, reportProgress } = createUploadProgressReporter(totalBytes, onUploadProgress)
+
+  reportProgress(UploadPhase.Creating)
+  const uploadId = await createUpload(axiosInstance, `${filesUploadUrl}?action=mpu-create`, signal, retryPolicy)
+
+  const completedParts: { etag: string; partNumber: number }[] = []
+  const inFlight = new Set<Promise<void>>()
+  let failure: { error: unknown } | undefined
+  let partNumber = 0
+
+  for await (const part of parts) {
+    if (signal?.aborted) {
+      throw new AbortError()
+    }
+    while (inFlight.size >= concurrency && !failure) {
+      await Promise.race(inFlight)
+    }
+    if (failure) {
+      break
+    }
+
+    const currentPartNumber = ++partNumber
+    const partSize = getDataSize(part)
+    reportProgress(UploadPhase.Uploading, currentPartNumber)
+    const upload: Promise<void> = uploadPart(
+      axiosInstance,
+      filePartsUploadUrl,
+      uploadId,
+      currentPartNumber,
+      part,
+      signal,
+      retryPolicy,
+      onUploadProgress &&
+        ((bytesSent) => {
+          partBytesSent.set(currentPartNumber, bytesSent)
+          reportProgress(UploadPhase.Uploading, currentPartNumber)
+        }),
+    )
+      .then(
+        (partResp) => {
+          partBytesSent.set(currentPartNumber, partSize)
+          completedParts[currentPartNumber - 1] = partResp
+        },
+        (error) => {
+          failure ??= { error }
+        },
+      )
+      .finally(() => inFlight.delete(upload))
+    inFlight.add(upload)
+  }
+
+  await Promise.all(inFlight)
+  if (failure) {
+    throw failure.error
+  }
+
+  reportProgress(UploadPhase.Completing)
+  await completeUpload(axiosInstance, filesUploadUrl, uploadId, completedParts, signal, retryPolicy)
+}
+
+/**
+ * Returns the size in bytes of in-memory data.
+ *
+ * @param data - The data.
+ * @returns The size in bytes.
+ */
+const getDataSize = (data: Blob | Uint8Array): number => (data instanceof Blob ? data.size : data.byteLength)
+
+/**
+ * Splits in-memory data into evenly sized parts, without copying it.
+ *
+ * @param data - The data to split.
+ * @param partSizeBytes - The maximum size in bytes for each part.
+ * @returns The parts, in order.
+ */
+const sliceIntoParts = (data: Blob | Uint8Array, partSizeBytes: number): Array<Blob | Uint8Array> => {
+  const size = getDataSize(data)
+  const numParts = Math.ceil(size / partSizeBytes)
+  const realPartSize = Math.ceil(size / numParts)
+  return Array.from({ length: numParts }, (_, index) => {
+    const start = index * realPartSize
+    const end = Math.min(size, start + realPartSize)
+    return data instanceof Blob ? data.slice(start, end) : data.subarray(start, end)
+  })
+}
+
+/**
+ * Reads a stream into parts of exactly `partSizeBytes`, except for the last part.
+ * Only the part being filled is buffered, in a buffer that grows as data arrives, so a short stream does not allocate a
+ * whole part.
+ *
+ * @param stream - The stream to read.
+ * @param partSizeBytes - The size in bytes of each part.
+ * @returns The parts, in order.
+ */
+export async function* readStreamInParts(
+  stream: AsyncIterable<Uint8Array | string>,
+  partSizeBytes: number,
+): AsyncGenerator<Uint8Array> {
+  let part = new Uint8Array(0)
+  let partLength = 0
+
+  for await (const chunk of stream) {
+    let bytes = typeof chunk === 'string' ? new TextEncoder().encode(chunk) : chunk
+    while (bytes.byteLength > 0) {
+      const length = Math.min(bytes.byteLength, partSizeBytes - partLength)
+      if (partLength + length > part.byteLength) {
+        // Doubling the buffer keeps the number of copies low, and the part size caps it.
+        const grownPart = new Uint8Array(Math.min(partSizeBytes, Math.max(partLength + length, part.byteLength * 2)))
+        grownPart.set(part.subarray(0, partLength))
+        part = grownPart
+      }
+      part.set(bytes.subarray(0, length), partLength)
+      partLength += length
+      bytes = bytes.subarray(length)
+
+      if (partLength === partSizeBytes) {
+        yield part
+        part = new Uint8Array(0)
+        partLength = 0
+      }
+    }
+  }
+
+  if (partLength > 0) {
+    yield part.subarray(0, partLength)
+  }
+}
+
+/**
+ * Splits an in-memory or stream source into its data, file name and size.
+ *
+ * @param source - The source to describe.
+ * @returns The source data, its file name and its size, if known.
+ */
+const describeDataSource = (
+  source: Exclude<TranscriptionSource, string>,
+): { data: Blob | Uint8Array | AsyncIterable<Uint8Array | string>; fileName: string; size?: number } => {
+  const { data, fileName, size } =
+    source instanceof Blob || source instanceof ArrayBuffer || source instanceof Uint8Array || isAsyncIterable(source)
+      ? { data: source, fileName: undefined, size: undefined }
+      : source
+
+  // Only a `File` carries a name.
+  const blobName = data instanceof Blob && 'name' in data && typeof data.name === 'string' ? data.name : undefined
+  const name = fileName || blobName || defaultUploadFileName
+
+  if (data instanceof Blob) {
+    return { data, fileName: name, size: data.size }
+  }
+  if (data instanceof ArrayBuffer) {
+    return { data: new Uint8Array(data), fileName: name, size: data.byteLength }
+  }
+  if (data instanceof Uint8Array) {
+    return { data, fileName: name, size: data.byteLength }
+  }
+  return { data, fileName: name, size }
+}
+
+/**
+ * Returns whether a value can be iterated asynchronously, like a Node.js `Readable` stream.
+ *
+ * @param value - The value to check.
+ * @returns True if the value is an async iterable.
+ */
+const isAsyncIterable = (value: unknown): value is AsyncIterable<Uint8Array | string> =>
+  typeof value === 'object' && value !== null && Symbol.asyncIterator in value
+
+/**
+ * Uploads an in-memory or stream source to storage and returns its signed URL and storage path.
+ *
+ * In-memory sources larger than the multipart threshold are uploaded in parts. Streams are read one part at a time;
+ * a stream that ends within its first part is uploaded with a single request, any longer stream in parts.
+ *
+ * @param axiosInstance - The axios instance configured for API requests.
+ * @param source - The `File`, `Blob`, `ArrayBuffer`, `Uint8Array`, stream or described source to upload.
  * @param organizationName - The organization name.
+ * @param signal - Optional An AbortSignal to cancel the operation.
+ * @param retryPolicy - Optional The retry policy for transient failures.
+ * @param uploadOptions - Optional The upload options.
+ * @returns A promise that resolves to the signed URL and the storage path of the upload.
+ */
+export const getTranscriptionDataSource = async (
+  axiosInstance: AxiosInstance,
+  source: Exclude<TranscriptionSource, string>,
+  organizationName: string,
+  signal?: AbortSignal,
+  retryPolicy: Required<RetryPolicy> = resolveRetryPolicy(),
+  uploadOptions?: UploadOptions,
+): Promise<UploadedSource> => {
+  const { data, fileName, size } = describeDataSource(source)
+  const uniqueFileName = `${globalThis.crypto.randomUUID()}-${fileName}`
+  const signFileRequestUrl = `/organizations/${organizationName}/file_tokens/${uniqueFileName}`
+
+  const { partSizeBytes, concurrency, multipartThresholdBytes, signedUrlExpirySeconds } = UploadOptionsSchema.parse({
+    partSizeBytes: uploadOptions?.partSizeBytes,
+    concurrency: uploadOptions?.concurrency,
+    multipartThresholdBytes: uploadOptions?.multipartThresholdBytes,
+    signedUrlExpirySeconds: uploadOptions?.signedUrlExpirySeconds,
+  })
+  const { onUploadProgress } = uploadOptions ?? {}
+
+  const uploadSinglePart = (part: Blob | Uint8Array) => {
+    const totalBytes = getDataSize(part)
+    return withRetry(
+      () => {
+        onUploadProgress?.({ phase: UploadPhase.Uploading, bytesSent: 0, totalBytes })
+        return uploadData(
+          axiosInstance,
+          `/organizations/${organizationName}/files/${uniqueFileName}`,
+          part,
+          fileName,
+          signal,
+          onUploadProgress &&
+            ((bytesSent) =>
+              // The form data encoding adds a few bytes, so the count is capped at the data size.
+              onUploadProgress({
+                phase: UploadPhase.Uploading,
+                bytesSent: Math.min(bytesSent, totalBytes),
+                totalBytes,
+              })),
+        )
+      },
+      retryPolicy,
+      signal,
+    )
+  }
+
+  let uploadedBytes = 0
+  try {
+    if (isAsyncIterable(data)) {
+      const streamParts = readStreamInParts(data, partSizeBytes)
+      const first = await streamParts.next()
+      const firstPart = first.done ? new Uint8Array(0) : first.value
+
+      // A part is only shorter than the part size at the end of the stream.
+      if (firstPart.byteLength < partSizeBytes && firstPart.byteLength <= multipartThresholdBytes) {
+        await uploadSinglePart(firstPart)
+        uploadedBytes = firstPart.byteLength
+      } else {
+        const countedParts = async function* () {
+          for (let part = first; !part.done; part = await streamParts.next()) {
+            uploadedBytes += part.value.byteLength
+            yield part.value
+          }
+        }
+        await uploadDataInParts(
+          axiosInstance,
+          uniqueFileName,
+          countedParts(),
+          organizationName,
+          size,
+          signal,
+          retryPolicy,
+          onUploadProgress,
+          concurrency,
+        )
+      }
+    } else {
+      uploadedBytes = getDataSize(data)
+      if (uploadedBytes > multipartThresholdBytes) {
+        await uploadDataInParts(
+          axiosInstance,
+          uniqueFileName,
+          sliceIntoParts(data, partSizeBytes),
+          organizationName,
+          uploadedBytes,
+          signal,
+          retryPolicy,
+          onUploadProgress,
+          concurrency,
+        )
+      } else {
+        await uploadSinglePart(data)
+      }
+    }
+  } catch (error: any) {
+    throw error instanceof UploadError || error instanceof AbortError
+      ? error
+      : new UploadError(fileName, error.message, error)
+  }
+
+  onUploadProgress?.({ phase: UploadPhase.Signing, bytesSent: uploadedBytes, totalBytes: uploadedBytes })
+  const { url } = await signFile(
+    axiosInstance,
+    signFileRequestUrl,
+    fileName,
+    signal,
+    retryPolicy,
+    signedUrlExpirySeconds,
+  )
+  return { url, storagePath: uniqueFileName }
+}
+
+/**
+ * Validates a local media file before it is uploaded.
+ * In browser environments, local file system access is not supported, so this function always rejects.
+ *
+ * @param filePath - The path of the file.
+ * @param options - Optional validation options.
  * @returns A Promise that rejects with an error stating local files are not supported.
  */
+export const validateMediaFile = async (filePath: string, options?: MediaValidationOptions): Promise<MediaFileInfo> =>
+  Promise.reject(new Error('Local files are not supported in browser environments'))
+
+/**
+ * An upload cache that persists the storage paths in a JSON file.
+ * In browser environments, local file system access is not supported, so this cache cannot be created.
+ */
+export class JsonFileUploadCache implements UploadCache {
+  constructor(filePath: string) {
+    throw new Error('Local files are not supported in browser environments')
+  }
+
+  async get(hash: string): Promise<string | undefined> {
+    return undefined
+  }
+
+  async set(hash: string, storagePath: string): Promise<void> {}
+
+  async delete(hash: string): Promise<void> {}
+}
+
+/**
+ * Uploads an in-memory or stream source for transcription and returns its signed URL and storage path.
+ * In browser environments, local file system access is not supported, so file paths are rejected.
+ *
+ * @param axiosInstance - The axios instance configured for API requests.
+ * @param source - The source to upload.
+ * @param organizationName - The organization name.
+ * @param signal - Optional An AbortSignal to cancel the operation.
+ * @param retryPolicy - Optional The retry policy for transient failures.
+ * @param uploadOptions - Optional The upload options.
+ * @returns A promise that resolves to the signed URL and the storage path of the upload.
+ */
 export const getTranscriptionLocalFileSource = async (
-  axiosInstance: any,
-  source: string,
+  axiosInstance: AxiosInstance,
+  source: TranscriptionSource,
   organizationName: string,
-): Promise<string> => {
-  // Immediately reject since browsers do not support accessing local files.
-  return Promise.reject(new Error('Local files are not supported in browser environments'))
+  signal?: AbortSignal,
+  retryPolicy: Required<RetryPolicy> = resolveRetryPolicy(),
+  uploadOptions?: UploadOptions,
+): Promise<UploadedSource> => {
+  if (typeof source === 'string') {
+    return Promise.reject(new Error('Local files are not supported in browser environments'))
+  }
+  return getTranscriptionDataSource(axiosInstance, source, organizationName, signal, retryPolicy, uploadOptions)
 }
@@ -0,0 +1,31 @@
+/**
+ * Decodes a base64 string into bytes, without `Buffer`, so it runs in browsers and edge runtimes.
+ *
+ * @param base64 - The base64 string.
+ * @returns The decoded bytes.
+ */
+export const base64ToBytes = (base64: string): Uint8Array => Uint8Array.from(atob(base64), (char) => char.charCodeAt(0))
+
+/**
+ * Encodes bytes as a base64 string, without `Buffer`, so it runs in browsers and edge runtimes.
+ *
+ * @param bytes - The bytes.
+ * @returns The base64 string.
+ */
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = ''
+  // Converting in chunks keeps the argument count of String.fromCharCode within engine limits.
+  for (let offset = 0; offset < bytes.length; offset += 0x8000) {
+    binary += String.fromCharCode(...Array.from(bytes.subarray(offset, offset + 0x8000)))
+  }
+  return btoa(binary)
+}
+
+/**
+ * Decodes UTF-8 bytes, or returns a string unchanged.
+ *
+ * @param payload - The bytes or string.
+ * @returns The string.
+ */
+export const bytesToString = (payload: string | Uint8Array): string =>
+  typeof payload === 'string' ? payload : new TextDecoder().decode(payload)
@@ -0,0 +1,40 @@
+import { WebhookPayloadSchema } from '../schema'
+import { ReplayStore, WebhookEvent } from '../types'
+import { Webhook, WebhookReplayError, WebhookUnbrandedRequiredHeaders } from './webhook'
+
+/**
+ * Verifies the signature of a webhook delivery and parses its event.
+ *
+ * With a replay store, the webhook ID is recorded for twice the timestamp tolerance, the longest time a delivery
+ * with a valid timestamp can be replayed.
+ *
+ * @param webhook - The webhook verifier holding the signing secrets and timestamp tolerance.
+ * @param payload - The raw request body, exactly as it was received.
+ * @param headers - The `webhook-id`, `webhook-timestamp` and `webhook-signature` headers.
+ * @param replayStore - Optional A store of the webhook IDs seen recently.
+ * @returns A promise that resolves to the verified event, with the job parsed like the result of `get` and the id of
+ * the matching secret.
+ * @throws WebhookVerificationError if the headers are missing or the signature or timestamp is invalid.
+ * @throws WebhookReplayError if the replay store already recorded the webhook ID.
+ * @throws ZodError if the payload is not an event of a transcription job.
+ */
+export const verifyWebhookEvent = async (
+  webhook: Webhook,
+  payload: string | Buffer,
+  headers: WebhookUnbrandedRequiredHeaders,
+  replayStore?: ReplayStore,
+): Promise<WebhookEvent> => {
+  const { payload: verifiedPayload, keyId } = webhook.verifyWithKeyId(payload, headers)
+  const { action, data } = WebhookPayloadSchema.parse(verifiedPayload)
+  const webhookId = headers['webhook-id']
+  if (replayStore && !(await replayStore.add(webhookId, webhook.toleranceInSeconds * 2))) {
+    throw new WebhookReplayError(`Message ${webhookId} was already received`)
+  }
+  return {
+    webhookId,
+    timestamp: new Date(parseInt(headers['webhook-timestamp'], 10) * 1000),
+    action,
+    data,
+    keyId,
+  }
+}
@@ -1 +1,5 @@
+export * from './event'
+export * from './replayStore'
+export * from './router'
+export * from './testing'
 export * from './webhook'
@@ -0,0 +1,42 @@
+import { ReplayStore } from '../types'
+
+/**
+ * A replay store that keeps the webhook IDs in memory, until they expire.
+ *
+ * Each process keeps its own IDs, so a service with several instances needs a shared store instead.
+ */
+export class InMemoryReplayStore implements ReplayStore {
+  private expiryTimes = new Map<string, number>()
+
+  async add(webhookId: string, ttlSeconds: number): Promise<boolean> {
+    const now = Date.now()
+    this.deleteExpired(now)
+
+    const expiryTime = this.expiryTimes.get(webhookId)
+    if (expiryTime !== undefined && expiryTime > now) {
+      return false
+    }
+    // Re-inserting keeps the IDs ordered by the time they were recorded.
+    this.expiryTimes.delete(webhookId)
+    this.expiryTimes.set(webhookId, now + ttlSeconds * 1000)
+    return true
+  }
+
+  async delete(webhookId: string): Promise<void> {
+    this.expiryTimes.delete(webhookId)
+  }
+
+  /**
+   * Deletes the expired IDs recorded before the first unexpired one.
+   *
+   * @param now - The current time in milliseconds.
+   */
+  private deleteExpired(now: number): void {
+    for (const [webhookId, expiryTime] of this.expiryTimes) {
+      if (expiryTime > now) {
+        return
+      }
+      this.expiryTimes.delete(webhookId)
+    }
+  }
+}
@@ -0,0 +1,56 @@
+import { EventAction, WebhookEvent, WebhookEventHandler } from '../types'
+
+/**
+ * Routes verified webhook events to the handlers registered for their action.
+ *
+ * Handlers of an action run one after another in registration order. Events without a handler for their action,
+ * including actions unknown to this SDK version, go to the `onUnknown` fallback.
+ */
+export class WebhookRouter {
+  private handlers = new Map<string, WebhookEventHandler[]>()
+  private unknownHandler?: WebhookEventHandler
+
+  /**
+   * Registers a handler for the events of an action.
+   *
+   * @param action - The event action, e.g. `EventAction.SUCCEEDED`.
+   * @param handler - The handler.
+   * @returns The router, for chaining.
+   */
+  on(action: EventAction, handler: WebhookEventHandler): this {
+    this.handlers.set(action, [...(this.handlers.get(action) ?? []), handler])
+    return this
+  }
+
+  /**
+   * Registers the fallback handler for events no other handler is registered for.
+   *
+   * @param handler - The handler.
+   * @returns The router, for chaining.
+   */
+  onUnknown(handler: WebhookEventHandler): this {
+    this.unknownHandler = handler
+    return this
+  }
+
+  /**
+   * Passes an event to the handlers of its action, or to the fallback handler.
+   *
+   * @param event - The verified webhook event, e.g. the result of `processWebhookRequest`.
+   * @returns A promise that resolves to true if a handler received the event, once all of them finished.
+   */
+  async dispatch(event: WebhookEvent): Promise<boolean> {
+    const handlers = this.handlers.get(event.action)
+    if (handlers && handlers.length > 0) {
+      for (const handler of handlers) {
+        await handler(event)
+      }
+      return true
+    }
+    if (this.unknownHandler) {
+      await this.unknownHandler(event)
+      return true
+    }
+    return false
+  }
+}
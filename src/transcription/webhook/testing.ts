@@ -0,0 +1,231 @@
+import { transcribeInferenceEndpointName } from '../constants'
+import { EventAction, Status, WebhookSecret } from '../types'
+import { bytesToBase64 } from './encoding'
+import { Webhook, WebhookOptions, WebhookUnbrandedRequiredHeaders } from './webhook'
+
+/**
+ * Options of a fake webhook delivery.
+ */
+export interface FakeWebhookDeliveryOptions {
+  /** Optional The event action. Defaults to "succeeded". */
+  action?: EventAction | string
+  /**
+   * Optional The job status. Defaults to the status the action leads to: pending after "created", running after
+   * "started", and failed after "cancelled".
+   */
+  status?: Status
+  /** Optional The job fields to replace, with the snake_case keys of the API, e.g. `{ id: 'job-id' }`. */
+  job?: Record<string, unknown>
+  /** Optional The organization name. Defaults to "test-organization". */
+  organizationName?: string
+  /** Optional The webhook ID. Defaults to a random ID. */
+  webhookId?: string
+  /** Optional The time the webhook is sent. Defaults to now. */
+  timestamp?: Date
+}
+
+/**
+ * A fake webhook delivery: the raw body and the headers to send it with.
+ */
+export interface FakeWebhookDelivery {
+  body: string
+  headers: Partial<WebhookUnbrandedRequiredHeaders>
+}
+
+/**
+ * The ways a fake webhook delivery can be broken on purpose: a timestamp outside the tolerance, a signature made with
+ * another secret, or no webhook headers at all.
+ */
+export type InvalidWebhookDeliveryKind = 'expired' | 'wrongSignature' | 'missingHeaders'
+
+const finalEventActions: string[] = [EventAction.SUCCEEDED, EventAction.FAILED, EventAction.CANCELLED]
+
+/**
+ * Returns the job status an event action leads to.
+ *
+ * @param action - The event action.
+ * @returns The job status.
+ */
+const getStatusOfAction = (action: string): Status => {
+  switch (action) {
+    case EventAction.CREATED:
+      return Status.Pending
+    case EventAction.STARTED:
+      return Status.Running
+    case EventAction.FAILED:
+    case EventAction.CANCELLED:
+      return Status.Failed
+    default:
+      return Status.Succeeded
+  }
+}
+
+/**
+ * Builds a transcription job as webhooks carry it, with the snake_case keys of the API.
+ *
+ * @param action - The event action.
+ * @param status - The job status.
+ * @param organizationName - The organization name.
+ * @param timestamp - The time of the event.
+ * @returns The job.
+ */
+const createFakeJob = (
+  action: string,
+  status: Status,
+  organizationName: string,
+  timestamp: Date,
+): Record<string, unknown> => {
+  const createTime = new Date(timestamp.getTime() - 60 * 1000).toISOString()
+  const time = timestamp.toISOString()
+  // The events up to and including the delivered one; other actions only follow the creation of the job.
+  const events = [{ action: EventAction.CREATED as string, time: createTime }]
+  if (action === EventAction.STARTED) {
+    events.push({ action, time })
+  } else if (finalEventActions.includes(action)) {
+    events.push({ action: EventAction.STARTED, time: createTime }, { action, time })
+  }
+
+  let output: Record<string, unknown> | undefined
+  if (status === Status.Succeeded) {
+    output = {
+      text: 'Hello world. How are you?',
+      duration_in_seconds: 4.5,
+      duration: 0.00125,
+      processing_time: 2.1,
+      sentence_level_timestamps: [
+        { text: 'Hello world.', start: 0, end: 1.5, speaker: 'SPEAKER_00' },
+        { text: 'How are you?', start: 2, end: 4.5, speaker: 'SPEAKER_01' },
+      ],
+      word_segments: [
+        { word: 'Hello', start: 0, end: 0.7, score: 0.98, speaker: 'SPEAKER_00' },
+        { word: 'world.', start: 0.8, end: 1.5, score: 0.95, speaker: 'SPEAKER_00' },
+        { word: 'How', start: 2, end: 2.6, score: 0.97, speaker: 'SPEAKER_01' },
+        { word: 'are', start: 2.7, end: 3.2, score: 0.99, speaker: 'SPEAKER_01' },
+        { word: 'you?', start: 3.3, end: 4.5, score: 0.96, speaker: 'SPEAKER_01' },
+      ],
+    }
+  } else if (status === Status.Failed && action !== EventAction.CANCELLED) {
+    output = { error: 'The audio file could not be decoded', duration: 0.0002 }
+  }
+
+  return {
+    id: globalThis.crypto.randomUUID(),
+    input: {
+      url: 'https://example.com/audio.mp3',
+      language_code: 'en',
+      word_level_timestamps: true,
+      diarization: true,
+      sentence_level_timestamps: true,
+    },
+    inference_endpoint_name: transcribeInferenceEndpointName,
+    status,
+    events,
+    organization_name: organizationName,
+    ...(output ? { output } : {}),
+    create_time: createTime,
+    update_time: time,
+  }
+}
+
+/**
+ * Produces correctly signed, and deliberately broken, webhook deliveries of transcription jobs, to test webhook
+ * handlers without waiting for SaladCloud to call them.
+ */
+export class WebhookTester {
+  private readonly webhook: Webhook
+
+  /**
+   * @param secret - The signing secret the handler under test verifies deliveries with.
+   * @param options - Optional The secret format, and the timestamp tolerance of the handler, which expired deliveries
+   * exceed.
+   */
+  constructor(secret: WebhookSecret, options?: WebhookOptions) {
+    this.webhook = new Webhook(secret, options)
+  }
+
+  /**
+   * Creates a signed delivery of an event, with a body shaped like the jobs SaladCloud sends.
+   *
+   * @param options - Optional The event action, job status and job fields.
+   * @returns The delivery.
+   */
+  createDelivery(options?: FakeWebhookDeliveryOptions): FakeWebhookDelivery {
+    const action = options?.action ?? EventAction.SUCCEEDED
+    const timestamp = options?.timestamp ?? new Date()
+    const job = {
+      ...createFakeJob(
+        action,
+        options?.status ?? getStatusOfAction(action),
+        options?.organizationName ?? 'test-organization',
+        timestamp,
+      ),
+      ...options?.job,
+    }
+    return this.sign(JSON.stringify({ action, data: job }), options?.webhookId, timestamp)
+  }
+
+  /**
+   * Creates a delivery that a handler must reject.
+   *
+   * @param kind - How the delivery is broken.
+   * @param options - Optional The event action, job status and job fields.
+   * @returns The delivery.
+   */
+  createInvalidDelivery(kind: InvalidWebhookDeliveryKind, options?: FakeWebhookDeliveryOptions): FakeWebhookDelivery {
+    switch (kind) {
+      case 'expired': {
+        const expiredAt = new Date(Date.now() - (this.webhook.toleranceInSeconds + 60) * 1000)
+        return this.createDelivery({ ...options, timestamp: expiredAt })
+      }
+      case 'wrongSignature': {
+        const delivery = this.createDelivery(options)
+        const otherKey = bytesToBase64(globalThis.crypto.getRandomValues(new Uint8Array(24)))
+        const otherWebhook = new Webhook(otherKey)
+        const timestamp = new Date(Number(delivery.headers['webhook-timestamp']) * 1000)
+        return {
+          body: delivery.body,
+          headers: {
+            ...delivery.headers,
+            'webhook-signature': otherWebhook.sign(delivery.headers['webhook-id']!, timestamp, delivery.body),
+          },
+        }
+      }
+      case 'missingHeaders':
+        return { body: this.createDelivery(options).body, headers: {} }
+    }
+  }
+
+  /**
+   * Signs a raw body, e.g. to test a handler with a body that is not a transcription job.
+   *
+   * @param body - The raw body.
+   * @param webhookId - Optional The webhook ID. Defaults to a random ID.
+   * @param timestamp - Optional The time the webhook is sent. Defaults to now.
+   * @returns The delivery.
+   */
+  sign(body: string, webhookId = `msg_${globalThis.crypto.randomUUID()}`, timestamp = new Date()): FakeWebhookDelivery {
+    return {
+      body,
+      headers: {
+        'webhook-id': webhookId,
+        'webhook-timestamp': String(Math.floor(timestamp.getTime() / 1000)),
+        'webhook-signature': this.webhook.sign(webhookId, timestamp, body),
+      },
+    }
+  }
+
+  /**
+   * Sends a delivery to a webhook handler, e.g. one listening on localhost.
+   *
+   * @param url - The URL of the handler.
+   * @param delivery - The delivery.
+   * @returns A promise that resolves to the response of the handler.
+   */
+  async send(url: string, delivery: FakeWebhookDelivery): Promise<Response> {
+    return fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...delivery.headers },
+      body: delivery.body,
+    })
+  }
+}
@@ -2,6 +2,8 @@
 // Licensed under the MIT License
 
 import * as sha256 from 'fast-sha256'
+import { WebhookSecret } from '../types'
+import { base64ToBytes, bytesToBase64, bytesToString } from './encoding'
 import { timingSafeEqual } from './timingSafeEqual'
 
 const WEBHOOK_TOLERANCE_IN_SECONDS = 5 * 60 // 5 minutes
@@ -23,42 +25,131 @@ export class WebhookVerificationError extends ExtendableError {
   }
 }
 
+export class WebhookReplayError extends WebhookVerificationError {
+  constructor(message: string) {
+    super(message)
+    Object.setPrototypeOf(this, WebhookReplayError.prototype)
+    this.name = 'WebhookReplayError'
+  }
+}
+
 export interface WebhookUnbrandedRequiredHeaders {
   'webhook-id': string
   'webhook-timestamp': string
   'webhook-signature': string
 }
 
+/**
+ * The result of a successful verification.
+ */
+export interface WebhookVerificationResult {
+  /** The parsed payload. */
+  payload: unknown
+  /** The id of the matching secret: its given id, or its position in the list of secrets. */
+  keyId: string
+}
+
 export interface WebhookOptions {
   format?: 'raw'
+  /** How far the webhook timestamp may be from the current time, in seconds. Defaults to 5 minutes. */
+  toleranceInSeconds?: number
 }
 
 export class Webhook {
   private static prefix = 'whsec_'
-  private readonly key: Uint8Array
-
-  constructor(secret: string | Uint8Array, options?: WebhookOptions) {
-    if (!secret) {
+  private readonly keys: { keyId: string; key: Uint8Array }[]
+  public readonly toleranceInSeconds: number
+
+  /**
+   * @param secret - The signing secret, or a list of secrets while rotating them. Deliveries signed with any of the
+   * secrets are accepted, and `sign` uses the first one.
+   * @param options - Optional The secret format and timestamp tolerance.
+   */
+  constructor(secret: WebhookSecret | WebhookSecret[], options?: WebhookOptions) {
+    const secrets = Array.isArray(secret) ? secret : [secret]
+    if (secrets.length === 0 || secrets.some((secret) => !secret)) {
       throw new Error("Secret can't be empty.")
     }
-    if (options?.format === 'raw') {
-      if (secret instanceof Uint8Array) {
-        this.key = secret
-      } else {
-        this.key = Uint8Array.from(secret, (c) => c.charCodeAt(0))
-      }
-    } else {
-      if (typeof secret !== 'string') {
-        throw new Error('Expected secret to be of type string')
+    this.toleranceInSeconds = options?.toleranceInSeconds ?? WEBHOOK_TOLERANCE_IN_SECONDS
+    if (!(this.toleranceInSeconds >= 0)) {
+      throw new Error('Expected toleranceInSeconds to be a non-negative number')
+    }
+    this.keys = secrets.map((secret, index) =>
+      typeof secret === 'object' && !(secret instanceof Uint8Array)
+        ? { keyId: secret.keyId, key: Webhook.decodeKey(secret.secret, options) }
+        : { keyId: String(index), key: Webhook.decodeKey(secret, options) },
+    )
+  }
+
+  public verify(payload: string | Buffer, headers_: WebhookUnbrandedRequiredHeaders | Record<string, string>): unknown {
+    return this.verifyWithKeyId(payload, headers_).payload
+  }
+
+  /**
+   * Verifies a delivery like `verify`, and also reports which secret matched, e.g. to tell when an old secret is no
+   * longer used after rotating it.
+   */
+  public verifyWithKeyId(
+    payload: string | Buffer,
+    headers_: WebhookUnbrandedRequiredHeaders | Record<string, string>,
+  ): WebhookVerificationResult {
+    const { msgId, timestamp, passedSignatures } = this.parseHeaders(headers_)
+
+    for (const { keyId, key } of this.keys) {
+      const computedSignature = this.signWithKey(key, msgId, timestamp, payload)
+      if (this.matchesSignature(computedSignature, passedSignatures)) {
+        return { payload: JSON.parse(payload.toString()), keyId }
       }
-      if (secret.startsWith(Webhook.prefix)) {
-        secret = secret.substring(Webhook.prefix.length)
+    }
+    throw new WebhookVerificationError('No matching signature found')
+  }
+
+  /**
+   * Verifies a delivery like `verify`, with the HMAC of Web Crypto (`crypto.subtle`) instead of `Buffer` and
+   * `fast-sha256`, so it runs in browsers and edge runtimes such as Cloudflare Workers and Deno.
+   */
+  public async verifyAsync(
+    payload: string | Uint8Array,
+    headers_: WebhookUnbrandedRequiredHeaders | Record<string, string>,
+  ): Promise<unknown> {
+    return (await this.verifyWithKeyIdAsync(payload, headers_)).payload
+  }
+
+  /**
+   * Verifies a delivery like `verifyAsync`, and also reports which secret matched.
+   */
+  public async verifyWithKeyIdAsync(
+    payload: string | Uint8Array,
+    headers_: WebhookUnbrandedRequiredHeaders | Record<string, string>,
+  ): Promise<WebhookVerificationResult> {
+    const { msgId, timestamp, passedSignatures } = this.parseHeaders(headers_)
+    const payloadString = bytesToString(payload)
+
+    for (const { keyId, key } of this.keys) {
+      const computedSignature = await this.signWithKeyAsync(key, msgId, timestamp, payloadString)
+      if (this.matchesSignature(computedSignature, passedSignatures)) {
+        return { payload: JSON.parse(payloadString), keyId }
       }
-      this.key = Buffer.from(secret, 'base64')
     }
+    throw new WebhookVerificationError('No matching signature found')
   }
 
-  public verify(payload: string | Buffer, headers_: WebhookUnbrandedRequiredHeaders | Record<string, string>): unknown {
+  public sign(msgId: string, timestamp: Date, payload: string | Buffer): string {
+    return this.signWithKey(this.keys[0].key, msgId, timestamp, payload)
+  }
+
+  /**
+   * Signs a delivery like `sign`, with the HMAC of Web Crypto (`crypto.subtle`).
+   */
+  public async signAsync(msgId: string, timestamp: Date, payload: string | Uint8Array): Promise<string> {
+    return this.signWithKeyAsync(this.keys[0].key, msgId, timestamp, bytesToString(payload))
+  }
+
+  private parseHeaders(headers_: WebhookUnbrandedRequiredHeaders | Record<string, string>): {
+    msgId: string
+    timestamp: Date
+    passedSignatures: string[]
+  } {
     const headers: Record<string, string> = {}
     for (const key of Object.keys(headers_)) {
       headers[key.toLowerCase()] = (headers_ as Record<string, string>)[key]
@@ -73,12 +164,12 @@ export class Webhook {
     }
 
     const timestamp = this.verifyTimestamp(msgTimestamp)
+    return { msgId, timestamp, passedSignatures: msgSignature.split(' ') }
+  }
 
-    const computedSignature = this.sign(msgId, timestamp, payload)
+  private matchesSignature(computedSignature: string, passedSignatures: string[]): boolean {
     const expectedSignature = computedSignature.split(',')[1]
 
-    const passedSignatures = msgSignature.split(' ')
-
     const encoder = new globalThis.TextEncoder()
     for (const versionedSignature of passedSignatures) {
       const [version, signature] = versionedSignature.split(',')
@@ -87,13 +178,13 @@ export class Webhook {
       }
 
       if (timingSafeEqual(encoder.encode(signature), encoder.encode(expectedSignature))) {
-        return JSON.parse(payload.toString())
+        return true
       }
     }
-    throw new WebhookVerificationError('No matching signature found')
+    return false
   }
 
-  public sign(msgId: string, timestamp: Date, payload: string | Buffer): string {
+  private signWithKey(key: Uint8Array, msgId: string, timestamp: Date, payload: string | Buffer): string {
     if (typeof payload === 'string') {
       // Do nothing, already a string
     } else if (payload.constructor.name === 'Buffer') {
@@ -105,10 +196,40 @@ export class Webhook {
     const encoder = new TextEncoder()
     const timestampNumber = Math.floor(timestamp.getTime() / 1000)
     const toSign = encoder.encode(`${msgId}.${timestampNumber}.${payload}`)
-    const expectedSignature = Buffer.from(sha256.hmac(this.key, toSign)).toString('base64')
+    const expectedSignature = bytesToBase64(sha256.hmac(key, toSign))
+    return `v1,${expectedSignature}`
+  }
+
+  private async signWithKeyAsync(key: Uint8Array, msgId: string, timestamp: Date, payload: string): Promise<string> {
+    const subtle = globalThis.crypto?.subtle
+    if (!subtle) {
+      throw new Error('Web Crypto (crypto.subtle) is not available in this environment.')
+    }
+
+    const encoder = new TextEncoder()
+    const timestampNumber = Math.floor(timestamp.getTime() / 1000)
+    const toSign = encoder.encode(`${msgId}.${timestampNumber}.${payload}`)
+    const cryptoKey = await subtle.importKey('raw', key, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign'])
+    const expectedSignature = bytesToBase64(new Uint8Array(await subtle.sign('HMAC', cryptoKey, toSign)))
     return `v1,${expectedSignature}`
   }
 
+  private static decodeKey(secret: string | Uint8Array, options?: WebhookOptions): Uint8Array {
+    if (secret instanceof Uint8Array) {
+      return secret
+    }
+    if (typeof secret !== 'string') {
+      throw new Error('Expected secret to be of type string')
+    }
+    if (options?.format === 'raw') {
+      return Uint8Array.from(secret, (c) => c.charCodeAt(0))
+    }
+    if (secret.startsWith(Webhook.prefix)) {
+      secret = secret.substring(Webhook.prefix.length)
+    }
+    return base64ToBytes(secret)
+  }
+
   private verifyTimestamp(timestampHeader: string): Date {
     const now = Math.floor(Date.now() / 1000)
     const timestamp = parseInt(timestampHeader, 10)
@@ -116,10 +237,10 @@ export class Webhook {
       throw new WebhookVerificationError('Invalid Signature Headers')
     }
 
-    if (now - timestamp > WEBHOOK_TOLERANCE_IN_SECONDS) {
+    if (now - timestamp > this.toleranceInSeconds) {
       throw new WebhookVerificationError('Message timestamp too old')
     }
-    if (timestamp > now + WEBHOOK_TOLERANCE_IN_SECONDS) {
+    if (timestamp > now + this.toleranceInSeconds) {
       throw new WebhookVerificationError('Message timestamp too new')
     }
     return new Date(timestamp * 1000)
@@ -0,0 +1 @@
+export * from './transcription/node/webhookAdapters'
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest'
+import { buildCaptionCues, toSrt, toTtml, toWebVtt } from '../src/transcription/captions'
+import { TranscribeResponseSchema } from '../src/transcription/schema'
+import { testTranscribeJobResponse } from './shared'
+
+const testResponse = TranscribeResponseSchema.parse(testTranscribeJobResponse)
+
+describe('buildCaptionCues', () => {
+  it('should build one cue per sentence by default', () => {
+    expect(buildCaptionCues(testResponse)).toEqual([
+      { start: 0, end: 1.5, speaker: 'SPEAKER_00', lines: ['Hello world.'] },
+      { start: 2, end: 4.5, speaker: 'SPEAKER_01', lines: ['How are you?'] },
+    ])
+  })
+
+  it('should split segments that exceed the line limits', () => {
+    const cues = buildCaptionCues(testResponse, { granularity: 'word', maxLineLength: 8, maxLinesPerCue: 1 })
+    expect(cues.map((cue) => cue.lines)).toEqual([['Hello'], ['world.'], ['How are'], ['you?']])
+    expect(cues[2]).toMatchObject({ start: 2, end: 3.2 })
+  })
+
+  it('should merge segments of the same speaker', () => {
+    const response = TranscribeResponseSchema.parse({
+      ...testTranscribeJobResponse,
+      output: {
+        ...testTranscribeJobResponse.output,
+        sentence_level_timestamps: [
+          { text: 'Hello world.', start: 0, end: 1.5 },
+          { text: 'How are you?', start: 2, end: 4.5 },
+        ],
+      },
+    })
+    expect(buildCaptionCues(response, { mergeSegments: true })).toEqual([
+      { start: 0, end: 4.5, speaker: undefined, lines: ['Hello world. How are you?'] },
+    ])
+  })
+
+  it('should prefix cues with the speaker', () => {
+    const cues = buildCaptionCues(testResponse, { speakerPrefix: (speaker) => `[${speaker}] ` })
+    expect(cues[0].lines).toEqual(['[SPEAKER_00] Hello world.'])
+  })
+
+  it('should extend cues that exceed the maximum characters per second', () => {
+    const cues = buildCaptionCues(testResponse, { maxCharsPerSecond: 6 })
+    expect(cues[0].end).toBe(2)
+    expect(cues[1].end).toBe(4.5)
+  })
+
+  it('should throw an error when the output has no timestamps', () => {
+    const response = TranscribeResponseSchema.parse({
+      ...testTranscribeJobResponse,
+      output: { text: 'Hello', duration_in_seconds: 1, duration: 0.1, processing_time: 1 },
+    })
+    expect(() => buildCaptionCues(response)).toThrow(
+      `Generating captions for transcription job ${response.id} failed: The transcription output has no sentence or word timestamps`,
+    )
+  })
+})
+
+describe('toSrt', () => {
+  it('should generate SRT captions', () => {
+    expect(toSrt(testResponse)).toBe(
+      '1\n00:00:00,000 --> 00:00:01,500\nHello world.\n\n2\n00:00:02,000 --> 00:00:04,500\nHow are you?\n',
+    )
+  })
+})
+
+describe('toWebVtt', () => {
+  it('should generate WebVTT captions', () => {
+    expect(toWebVtt(testResponse, { speakerPrefix: true })).toBe(
+      'WEBVTT\n\n00:00:00.000 --> 00:00:01.500\nSPEAKER_00: Hello world.\n\n' +
+        '00:00:02.000 --> 00:00:04.500\nSPEAKER_01: How are you?\n',
+    )
+  })
+})
+
+describe('toTtml', () => {
+  it('should generate a TTML document', () => {
+    const ttml = toTtml(testResponse, { language: 'en-US', maxLineLength: 6 })
+    expect(ttml).toContain('<tt xmlns="http://www.w3.org/ns/ttml" xml:lang="en-US">')
+    expect(ttml).toContain('<p begin="00:00:00.000" end="00:00:01.500">Hello<br/>world.</p>')
+  })
+})
@@ -0,0 +1,103 @@
+import fs from 'fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import {
+  createUploadCheckpointWriter,
+  getDefaultCheckpointPath,
+  loadUploadCheckpoint,
+  saveUploadCheckpoint,
+} from '../src/transcription/node/checkpoint'
+import { UploadCheckpoint } from '../src/transcription/types'
+import {
+  testFileName,
+  testFilePath,
+  testFileSize,
+  testMaxChunkSize,
+  testOrganizationName,
+  testUploadId,
+} from './shared'
+
+const testCheckpoint: UploadCheckpoint = {
+  organizationName: testOrganizationName,
+  filePath: testFilePath,
+  fileSize: testFileSize,
+  mtimeMs: 1700000000000,
+  partSizeBytes: testMaxChunkSize,
+  uniqueFileName: testFileName,
+  uploadId: testUploadId,
+  parts: [{ etag: 'etag-1', partNumber: 1 }],
+}
+
+describe('upload checkpoints', () => {
+  let directory: string
+  let checkpointPath: string
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'checkpoint-test-'))
+    checkpointPath = path.join(directory, 'nested', 'checkpoint.json')
+  })
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true })
+  })
+
+  it('should derive a stable default path per organization and file', () => {
+    const defaultPath = getDefaultCheckpointPath(testOrganizationName, testFilePath)
+    expect(defaultPath).toBe(getDefaultCheckpointPath(testOrganizationName, testFilePath))
+    expect(defaultPath).not.toBe(getDefaultCheckpointPath('other_org', testFilePath))
+    expect(defaultPath.startsWith(os.tmpdir())).toBe(true)
+  })
+
+  it('should load a saved checkpoint of an unchanged file', async () => {
+    await saveUploadCheckpoint(checkpointPath, testCheckpoint)
+    await expect(loadUploadCheckpoint(checkpointPath, testCheckpoint)).resolves.toEqual(testCheckpoint)
+  })
+
+  it('should discard the checkpoint when the file changed', async () => {
+    await saveUploadCheckpoint(checkpointPath, testCheckpoint)
+    await expect(
+      loadUploadCheckpoint(checkpointPath, { ...testCheckpoint, mtimeMs: testCheckpoint.mtimeMs + 1 }),
+    ).resolves.toBeUndefined()
+    await expect(fs.access(checkpointPath)).rejects.toThrow()
+  })
+
+  it('should discard an unreadable checkpoint', async () => {
+    await fs.mkdir(path.dirname(checkpointPath), { recursive: true })
+    await fs.writeFile(checkpointPath, '{"uploadId":')
+    await expect(loadUploadCheckpoint(checkpointPath, testCheckpoint)).resolves.toBeUndefined()
+  })
+
+  it('should record concurrently completed parts', async () => {
+    const recordPart = createUploadCheckpointWriter(checkpointPath, testCheckpoint)
+    await Promise.all([recordPart({ etag: 'etag-3', partNumber: 3 }), recordPart({ etag: 'etag-2', partNumber: 2 })])
+    const saved = JSON.parse(await fs.readFile(checkpointPath, 'utf8'))
+    expect(saved.parts).toEqual([
+      { etag: 'etag-1', partNumber: 1 },
+      { etag: 'etag-2', partNumber: 2 },
+      { etag: 'etag-3', partNumber: 3 },
+    ])
+  })
+
+  it('should keep recording parts after a failed save', async () => {
+    // A directory in place of the checkpoint file makes replacing it fail.
+    await fs.mkdir(path.join(checkpointPath, 'blocked'), { recursive: true })
+    const recordPart = createUploadCheckpointWriter(checkpointPath, testCheckpoint)
+    await expect(recordPart({ etag: 'etag-2', partNumber: 2 })).resolves.toBeUndefined()
+
+    await fs.rm(checkpointPath, { recursive: true })
+    await recordPart({ etag: 'etag-3', partNumber: 3 })
+    const saved = JSON.parse(await fs.readFile(checkpointPath, 'utf8'))
+    expect(saved.parts.map(({ partNumber }: { partNumber: number }) => partNumber)).toEqual([1, 2, 3])
+  })
+
+  it('should save the same checkpoint concurrently', async () => {
+    await Promise.all(
+      ['upload-1', 'upload-2', 'upload-3'].map((uploadId) =>
+        saveUploadCheckpoint(checkpointPath, { ...testCheckpoint, uploadId }),
+      ),
+    )
+    await expect(loadUploadCheckpoint(checkpointPath, testCheckpoint)).resolves.toBeDefined()
+    expect(await fs.readdir(path.dirname(checkpointPath))).toEqual(['checkpoint.json'])
+  })
+})
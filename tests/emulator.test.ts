@@ -0,0 +1,192 @@
+import { promises as fsPromises } from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { SaladCloudEmulator } from '../src/emulator'
+import {
+  AbortError,
+  AuthenticationError,
+  NotFoundError,
+  ServerError,
+  TranscriptionError,
+} from '../src/transcription/errors'
+import { SaladCloudTranscriptionSdk } from '../src/transcription/transcription'
+import { EventAction, Status, TranscribeResponse } from '../src/transcription/types'
+
+// The SaladCloud SDK validates organization names, so the shared test organization name does not work here.
+const organizationName = 'test-org'
+const remoteSource = 'https://example.com/audio.mp3'
+const noRetry = { retry: { maxAttempts: 1 } }
+
+describe('SaladCloudEmulator', () => {
+  let emulator: SaladCloudEmulator
+  let sdk: SaladCloudTranscriptionSdk
+
+  beforeEach(async () => {
+    emulator = await new SaladCloudEmulator({ apiKey: 'test-api-key' }).start()
+    sdk = new SaladCloudTranscriptionSdk({ apiKey: 'test-api-key', ...emulator.config })
+  })
+
+  afterEach(async () => {
+    await emulator.stop()
+  })
+
+  it('should upload, sign and transcribe an in-memory source', async () => {
+    const data = new TextEncoder().encode('RIFF fake audio data')
+    const job = await sdk.transcribe(organizationName, { data, fileName: 'audio.wav' }, { languageCode: 'en' })
+
+    expect(job.status).toBe(Status.Pending)
+    expect(emulator.getFile(organizationName, job.storagePath!)).toEqual(Buffer.from(data))
+    const download = await fetch(job.input.url)
+    expect(Buffer.from(await download.arrayBuffer())).toEqual(Buffer.from(data))
+
+    const result = await sdk.waitFor(organizationName, job.id, undefined, { intervalMs: 1 })
+    expect(result).toMatchObject({
+      status: Status.Succeeded,
+      input: { url: job.input.url, languageCode: 'en' },
+      output: { text: 'This is an emulated transcript.', durationInSeconds: 2.5 },
+    })
+    expect(result.events.map((event) => event.action)).toEqual([
+      EventAction.CREATED,
+      EventAction.STARTED,
+      EventAction.SUCCEEDED,
+    ])
+  })
+
+  it('should assemble multipart uploads from their parts', async () => {
+    const data = Uint8Array.from({ length: 2500 }, (_, index) => index % 251)
+    const { storagePath } = await sdk.transcribe(organizationName, data, undefined, undefined, undefined, {
+      upload: { multipartThresholdBytes: 1000, partSizeBytes: 1000 },
+    })
+
+    expect(emulator.getFile(organizationName, storagePath!)).toEqual(Buffer.from(data))
+    expect(emulator.requests.filter(({ path }) => path.includes('/file_parts/'))).toHaveLength(3)
+    await expect(sdk.files.getMetadata(organizationName, storagePath!)).resolves.toMatchObject({ size: 2500 })
+  })
+
+  it('should sign, list and delete stored files', async () => {
+    const { storagePath } = await sdk.transcribe(organizationName, new Uint8Array(8))
+
+    const signedUrl = await sdk.resignSource(organizationName, storagePath!)
+    expect((await fetch(signedUrl)).status).toBe(200)
+    expect((await fetch(signedUrl.replace(/token=[^&]+/, 'token=invalid'))).status).toBe(403)
+    expect(await sdk.files.list(organizationName)).toEqual([{ storagePath, url: expect.any(String), size: 8 }])
+
+    await sdk.files.delete(organizationName, storagePath!)
+    expect(await sdk.files.list(organizationName)).toEqual([])
+    await expect(sdk.files.delete(organizationName, storagePath!, noRetry)).rejects.toThrow(NotFoundError)
+  })
+
+  it('should delete only the uploads that transcribe created after completion', async () => {
+    const waitFor = (job: TranscribeResponse) =>
+      sdk.waitFor(organizationName, job.id, undefined, { intervalMs: 1, deleteUploadAfterCompletion: job })
+    const uploaded = await sdk.transcribe(organizationName, new Uint8Array(8))
+    await waitFor(uploaded)
+    expect(emulator.getFile(organizationName, uploaded.storagePath!)).toBeUndefined()
+
+    // A storage URL passed as a remote source belongs to the caller.
+    const { storagePath } = await sdk.transcribe(organizationName, new Uint8Array(16))
+    await waitFor(await sdk.transcribe(organizationName, await sdk.resignSource(organizationName, storagePath!)))
+    expect(emulator.getFile(organizationName, storagePath!)).toHaveLength(16)
+
+    // Deduplicated uploads may be shared with other jobs and the upload cache.
+    const tempDir = await fsPromises.mkdtemp(path.join(os.tmpdir(), 'emulator-upload-'))
+    try {
+      const filePath = path.join(tempDir, 'audio.wav')
+      await fsPromises.writeFile(filePath, 'RIFF fake audio data')
+      const transcribeOptions = { upload: { deduplicate: true } }
+      const first = await sdk.transcribe(organizationName, filePath, undefined, undefined, undefined, transcribeOptions)
+      const hit = await sdk.transcribe(organizationName, filePath, undefined, undefined, undefined, transcribeOptions)
+      expect(hit).toMatchObject({ storagePath: first.storagePath, deduplicated: true })
+      await waitFor(first)
+      await waitFor(hit)
+      expect(emulator.getFile(organizationName, first.storagePath!)).toBeDefined()
+    } finally {
+      await fsPromises.rm(tempDir, { recursive: true, force: true })
+    }
+  })
+
+  it('should delete uploads of a job waited for by another SDK instance', async () => {
+    const job = await sdk.transcribe(organizationName, new Uint8Array(8))
+    const other = new SaladCloudTranscriptionSdk({ apiKey: 'test-api-key', ...emulator.config })
+    await other.waitFor(organizationName, job.id, undefined, {
+      intervalMs: 1,
+      deleteUploadAfterCompletion: { storagePath: job.storagePath },
+    })
+    expect(emulator.getFile(organizationName, job.storagePath!)).toBeUndefined()
+  })
+
+  it('should cancel the upload of a small local file', async () => {
+    const tempDir = await fsPromises.mkdtemp(path.join(os.tmpdir(), 'emulator-upload-'))
+    try {
+      const filePath = path.join(tempDir, 'audio.wav')
+      await fsPromises.writeFile(filePath, 'RIFF fake audio data')
+      // The upload never completes on its own, so only cancelling it ends the call.
+      emulator.injectFault({ method: 'PUT', path: '/files/', latencyMs: 60000 })
+      const controller = new AbortController()
+      setTimeout(() => controller.abort(), 50)
+
+      await expect(sdk.transcribe(organizationName, filePath, undefined, undefined, controller.signal)).rejects.toThrow(
+        AbortError,
+      )
+    } finally {
+      await fsPromises.rm(tempDir, { recursive: true, force: true })
+    }
+  })
+
+  it('should stop, list and fail jobs following the script', async () => {
+    await emulator.stop()
+    emulator = await new SaladCloudEmulator({
+      script: (input) => (input.url === remoteSource ? { status: Status.Failed, error: 'Unsupported codec' } : {}),
+    }).start()
+    sdk = new SaladCloudTranscriptionSdk({ apiKey: 'test-api-key', ...emulator.config })
+
+    const failing = await sdk.transcribe(organizationName, remoteSource)
+    const stopped = await sdk.transcribe(organizationName, 'https://example.com/other.mp3')
+    await sdk.stop(organizationName, stopped.id)
+    expect(emulator.getJob(stopped.id)?.events.at(-1)).toMatchObject({ action: EventAction.CANCELLED })
+
+    await expect(sdk.waitFor(organizationName, failing.id, undefined, { intervalMs: 1 })).rejects.toThrow(
+      new TranscriptionError(failing.id, 'Unsupported codec'),
+    )
+    const { items } = await sdk.list(organizationName, { pageSize: 1, page: 2 })
+    expect(items.map((job) => job.id)).toEqual([stopped.id])
+    await expect(sdk.get(organizationName, 'unknown', noRetry)).rejects.toThrow(NotFoundError)
+  })
+
+  it('should inject latency and error responses into matching requests', async () => {
+    emulator.injectFault({ method: 'POST', path: '/jobs', status: 429, retryAfterSeconds: 0, times: 1 })
+    emulator.injectFault({ method: 'GET', path: /\/jobs\/[^/]+$/, latencyMs: 100, times: 1 })
+
+    const { id } = await sdk.transcribe(organizationName, remoteSource)
+    expect(emulator.requests.filter(({ method }) => method === 'POST')).toHaveLength(2)
+
+    const startedAt = Date.now()
+    await sdk.get(organizationName, id)
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(90)
+
+    emulator.injectFault({ path: '/files', status: 403 })
+    await expect(sdk.files.list(organizationName, noRetry)).rejects.toThrow(AuthenticationError)
+    emulator.clearFaults()
+    await expect(sdk.files.list(organizationName)).resolves.toEqual([])
+  })
+
+  it('should retry as often as the retry policy allows, and never retry an ambiguous job creation', async () => {
+    emulator.injectFault({ method: 'GET', path: '/jobs/unknown', status: 503, retryAfterSeconds: 0 })
+    await expect(sdk.get(organizationName, 'unknown', noRetry)).rejects.toThrow(ServerError)
+    expect(emulator.requests.filter(({ method }) => method === 'GET')).toHaveLength(1)
+    await expect(sdk.get(organizationName, 'unknown')).rejects.toThrow(ServerError)
+    expect(emulator.requests.filter(({ method }) => method === 'GET')).toHaveLength(4)
+
+    emulator.injectFault({ method: 'POST', path: '/jobs', status: 502, times: 1 })
+    await expect(sdk.transcribe(organizationName, remoteSource)).rejects.toThrow(ServerError)
+    expect(emulator.requests.filter(({ method }) => method === 'POST')).toHaveLength(1)
+  })
+
+  it('should reject requests without the API key', async () => {
+    const unauthorized = new SaladCloudTranscriptionSdk({ apiKey: 'wrong-api-key', ...emulator.config })
+
+    await expect(unauthorized.list(organizationName, noRetry)).rejects.toThrow(AuthenticationError)
+    await expect(unauthorized.files.list(organizationName, noRetry)).rejects.toThrow(AuthenticationError)
+  })
+})
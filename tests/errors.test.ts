@@ -0,0 +1,166 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { z } from 'zod'
+import {
+  AbortError,
+  ApiError,
+  AuthenticationError,
+  NotFoundError,
+  RateLimitError,
+  ServerError,
+  SignFileError,
+  TranscriptionError,
+  UploadError,
+  ValidationError,
+} from '../src/transcription/errors'
+import { SaladCloudTranscriptionSdk } from '../src/transcription/transcription'
+import { toApiError } from '../src/transcription/utils'
+import { testOrganizationName, testTranscriptionId } from './shared'
+
+const context = { operation: 'get', organizationName: testOrganizationName, jobId: testTranscriptionId }
+
+const axiosError = (status: number, headers: Record<string, string> = {}, data?: unknown) =>
+  Object.assign(new Error(`Request failed with status code ${status}`), {
+    isAxiosError: true,
+    response: { status, headers, data },
+  })
+
+describe('toApiError', () => {
+  it('should map HTTP statuses to typed errors with the request context', () => {
+    const notFound = toApiError(axiosError(404), context)
+    expect(notFound).toBeInstanceOf(NotFoundError)
+    expect(notFound).toBeInstanceOf(ApiError)
+    expect(notFound).toMatchObject({ ...context, status: 404 })
+    expect((notFound as Error).message).toBe(
+      `The requested resource was not found (operation: get, organization: ${testOrganizationName}, job: ${testTranscriptionId}, status: 404)`,
+    )
+
+    expect(toApiError(axiosError(401), context)).toBeInstanceOf(AuthenticationError)
+    expect(toApiError(axiosError(403), context)).toBeInstanceOf(AuthenticationError)
+    expect(toApiError(axiosError(503), context)).toBeInstanceOf(ServerError)
+    expect(toApiError(axiosError(422), context)).toBeInstanceOf(ValidationError)
+    expect(toApiError(axiosError(409), context)).toMatchObject({ status: 409, errorMessage: expect.any(String) })
+  })
+
+  it('should read the status and Retry-After header of SaladCloud SDK errors', () => {
+    const sdkError = Object.assign(new Error('Too Many Requests'), {
+      metadata: { status: 429, headers: { 'retry-after': '2' } },
+    })
+    const error = toApiError(sdkError, context)
+    expect(error).toBeInstanceOf(RateLimitError)
+    expect(error).toMatchObject({ status: 429, retryAfterMs: 2000, cause: sdkError })
+  })
+
+  it('should build validation errors from the problem details and field errors of the response', () => {
+    const error = toApiError(
+      axiosError(400, {}, { detail: 'The request is invalid', errors: { 'input.url': ['Must be a URL'] } }),
+      context,
+    )
+    expect(error).toBeInstanceOf(ValidationError)
+    expect((error as ValidationError).issues).toEqual([
+      { path: '', message: 'The request is invalid' },
+      { path: 'input.url', message: 'Must be a URL' },
+    ])
+
+    const sdkError = Object.assign(new Error('Unprocessable Entity'), {
+      status: 422,
+      response: { title: 'Unprocessable', errors: [{ path: 'webhook', message: 'Unsupported scheme' }] },
+    })
+    expect((toApiError(sdkError, context) as ValidationError).issues).toEqual([
+      { path: '', message: 'Unprocessable' },
+      { path: 'webhook', message: 'Unsupported scheme' },
+    ])
+    expect((toApiError(axiosError(400), context) as ValidationError).issues).toEqual([
+      { path: '', message: 'Request failed with status code 400' },
+    ])
+  })
+
+  it('should classify failed uploads and signed URL requests by their HTTP status', () => {
+    const uploadError = new UploadError('audio.mp3', 'Request failed', axiosError(403))
+    const error = toApiError(uploadError, { operation: 'transcribe', organizationName: testOrganizationName })
+    expect(error).toBeInstanceOf(AuthenticationError)
+    expect(error).toMatchObject({ organizationName: testOrganizationName, status: 403, cause: uploadError })
+
+    const signError = new SignFileError('audio.mp3', 'Request failed', axiosError(429, { 'retry-after': '1' }))
+    expect(toApiError(signError, context)).toMatchObject({ status: 429, retryAfterMs: 1000, cause: signError })
+
+    const networkUploadError = new UploadError('audio.mp3', 'socket hang up', new Error('socket hang up'))
+    expect(toApiError(networkUploadError, context)).toBe(networkUploadError)
+  })
+
+  it('should wrap zod errors with the path of each invalid field', () => {
+    const result = z.object({ options: z.object({ language: z.string() }) }).safeParse({ options: { language: 1 } })
+    const error = toApiError(result.success ? undefined : result.error, { operation: 'transcribe' })
+    expect(error).toBeInstanceOf(ValidationError)
+    expect((error as ValidationError).issues).toEqual([
+      { path: 'options.language', message: 'Expected string, received number' },
+    ])
+  })
+
+  it('should map cancelled requests to an AbortError and fill in the context of typed errors', () => {
+    expect(toApiError(Object.assign(new Error('canceled'), { code: 'ERR_CANCELED' }), context)).toBeInstanceOf(
+      AbortError,
+    )
+    expect(toApiError(new AbortError(), context)).toMatchObject(context)
+  })
+
+  it('should return other errors unchanged', () => {
+    const transcriptionError = new TranscriptionError(testTranscriptionId, 'failed')
+    const networkError = Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' })
+    expect(toApiError(transcriptionError, context)).toBe(transcriptionError)
+    expect(toApiError(networkError, context)).toBe(networkError)
+  })
+})
+
+describe('SaladCloudTranscriptionSdk errors', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('should reject a missing job with a NotFoundError', async () => {
+    const sdk = new SaladCloudTranscriptionSdk({ apiKey: 'test-api-key', retry: { maxAttempts: 1 } })
+    vi.spyOn((sdk as any).saladCloudSdk.inferenceEndpoints, 'getInferenceEndpointJob').mockRejectedValue(
+      Object.assign(new Error('Not Found'), { metadata: { status: 404, headers: {} } }),
+    )
+
+    const error = await sdk.get(testOrganizationName, testTranscriptionId).catch((error) => error)
+    expect(error).toBeInstanceOf(NotFoundError)
+    expect(error).toMatchObject({
+      operation: 'get',
+      organizationName: testOrganizationName,
+      jobId: testTranscriptionId,
+      status: 404,
+    })
+  })
+
+  it('should reject invalid responses with a ValidationError', async () => {
+    const sdk = new SaladCloudTranscriptionSdk({ apiKey: 'test-api-key' })
+    vi.spyOn((sdk as any).saladCloudSdk.inferenceEndpoints, 'getInferenceEndpointJob').mockResolvedValue({
+      data: { id: 42 },
+    })
+
+    const error = await sdk.get(testOrganizationName, testTranscriptionId).catch((error) => error)
+    expect(error).toBeInstanceOf(ValidationError)
+    expect(error.issues).toContainEqual({ path: 'id', message: 'Expected string, received number' })
+    expect(error.jobId).toBe(testTranscriptionId)
+  })
+
+  it('should reject a sign request for a missing file with a NotFoundError', async () => {
+    const sdk = new SaladCloudTranscriptionSdk({ apiKey: 'test-api-key', retry: { maxAttempts: 1 } })
+    vi.spyOn((sdk as any).axiosInstance, 'post').mockRejectedValue(axiosError(404))
+
+    const error = await sdk.files.sign(testOrganizationName, 'missing.mp3').catch((error) => error)
+    expect(error).toBeInstanceOf(NotFoundError)
+    expect(error).toMatchObject({ operation: 'files.sign', organizationName: testOrganizationName, status: 404 })
+    expect(error.cause).toBeInstanceOf(SignFileError)
+  })
+
+  it('should reject an aborted wait with an AbortError', async () => {
+    const sdk = new SaladCloudTranscriptionSdk({ apiKey: 'test-api-key' })
+    const controller = new AbortController()
+    controller.abort()
+
+    const error = await sdk.waitFor(testOrganizationName, testTranscriptionId, controller.signal).catch((e) => e)
+    expect(error).toBeInstanceOf(AbortError)
+    expect(error).toMatchObject({ operation: 'waitFor', jobId: testTranscriptionId })
+  })
+})
@@ -0,0 +1,185 @@
+import { describe, expect, it, vi } from 'vitest'
+import {
+  AbortError,
+  NotFoundError,
+  RateLimitError,
+  TranscriptionError,
+  WaitForTimeoutError,
+} from '../src/transcription/errors'
+import { FakeSaladCloudTranscriptionSdk, SaladCloudTranscriptionClient } from '../src/transcription/fake'
+import { EventAction, Status } from '../src/transcription/types'
+import { WebhookTester } from '../src/transcription/webhook'
+import { testOrganizationName, testWebhookSecret } from './shared'
+
+const remoteSource = 'https://example.com/audio.mp3'
+
+describe('FakeSaladCloudTranscriptionSdk', () => {
+  it('should move a job from pending to running to succeeded as it is polled', async () => {
+    const sdk = new FakeSaladCloudTranscriptionSdk()
+    const { id, status } = await sdk.transcribe(testOrganizationName, remoteSource, { languageCode: 'en' })
+
+    expect(status).toBe(Status.Pending)
+    expect((await sdk.get(testOrganizationName, id)).status).toBe(Status.Pending)
+    expect((await sdk.get(testOrganizationName, id)).status).toBe(Status.Running)
+    const job = await sdk.get(testOrganizationName, id)
+    expect(job).toMatchObject({
+      status: Status.Succeeded,
+      input: { url: remoteSource, languageCode: 'en' },
+      output: { text: 'This is a fake transcript.' },
+    })
+    expect(job.events.map((event) => event.action)).toEqual([
+      EventAction.CREATED,
+      EventAction.STARTED,
+      EventAction.SUCCEEDED,
+    ])
+  })
+
+  it('should follow queued scripts and fail jobs with the scripted error', async () => {
+    const sdk = new FakeSaladCloudTranscriptionSdk({ script: { pendingPolls: 0, runningPolls: 0 } })
+    sdk.queueScript({ status: Status.Failed, pendingPolls: 0, runningPolls: 0, error: 'Unsupported codec' })
+
+    const failed = await sdk.transcribe(testOrganizationName, remoteSource)
+    await expect(sdk.get(testOrganizationName, failed.id)).rejects.toThrow(
+      new TranscriptionError(failed.id, 'Unsupported codec'),
+    )
+    const output = { text: 'Custom', durationInSeconds: 1, duration: 0, processingTime: 0 }
+    sdk.queueScript({ pendingPolls: 0, runningPolls: 0, output })
+    const succeeded = await sdk.transcribe(testOrganizationName, remoteSource)
+    expect((await sdk.get(testOrganizationName, succeeded.id)).output).toEqual(output)
+
+    // Without a queued script, the default script applies.
+    const other = await sdk.transcribe(testOrganizationName, remoteSource)
+    expect((await sdk.get(testOrganizationName, other.id)).output).toMatchObject({ text: 'This is a fake transcript.' })
+  })
+
+  it('should advance jobs with a time-based lifecycle on the virtual clock', async () => {
+    const sdk = new FakeSaladCloudTranscriptionSdk({
+      script: { pendingMs: 1000, runningMs: 5000 },
+      startTime: new Date('2025-01-01T00:00:00Z'),
+    })
+    const { id, createTime } = await sdk.transcribe(testOrganizationName, remoteSource)
+    expect(createTime).toBe('2025-01-01T00:00:00.000Z')
+
+    expect((await sdk.get(testOrganizationName, id)).status).toBe(Status.Pending)
+    sdk.advanceTime(1000)
+    expect(sdk.getJob(id)?.status).toBe(Status.Running)
+    sdk.advanceTime(5000)
+    expect((await sdk.get(testOrganizationName, id)).updateTime).toBe('2025-01-01T00:00:06.000Z')
+  })
+
+  it('should wait for jobs on the virtual clock, without sleeping', async () => {
+    const sdk = new FakeSaladCloudTranscriptionSdk({ script: { pendingMs: 20000, runningMs: 20000 } })
+    const onProgress = vi.fn()
+    const { id } = await sdk.transcribe(testOrganizationName, remoteSource)
+
+    const job = await sdk.waitFor(testOrganizationName, id, undefined, { intervalMs: 5000, onProgress })
+    expect(job.status).toBe(Status.Succeeded)
+    expect(onProgress.mock.calls.map(([status]) => status)).toEqual([
+      ...Array(4).fill(Status.Pending),
+      ...Array(4).fill(Status.Running),
+      Status.Succeeded,
+    ])
+
+    sdk.queueScript({ pendingMs: 60000 })
+    const slow = await sdk.transcribe(testOrganizationName, remoteSource)
+    await expect(sdk.waitFor(testOrganizationName, slow.id, undefined, { timeoutMs: 10000 })).rejects.toThrow(
+      new WaitForTimeoutError(slow.id, 10000, Status.Pending),
+    )
+  })
+
+  it('should throw injected errors as typed errors, once per injection', async () => {
+    const sdk = new FakeSaladCloudTranscriptionSdk()
+    const { id } = await sdk.transcribe(testOrganizationName, remoteSource)
+    sdk.injectError('get', { metadata: { status: 429, headers: { 'retry-after': '2' } } }, 2)
+
+    const error = await sdk.get(testOrganizationName, id).catch((error) => error)
+    expect(error).toBeInstanceOf(RateLimitError)
+    expect(error).toMatchObject({ operation: 'get', jobId: id, retryAfterMs: 2000 })
+    await expect(sdk.get(testOrganizationName, id)).rejects.toThrow(RateLimitError)
+    await expect(sdk.get(testOrganizationName, id)).resolves.toMatchObject({ id })
+
+    await expect(sdk.get(testOrganizationName, 'unknown')).rejects.toThrow(NotFoundError)
+    await expect(sdk.get('other-organization', id)).rejects.toThrow(NotFoundError)
+    const controller = new AbortController()
+    controller.abort()
+    await expect(sdk.transcribe(testOrganizationName, remoteSource, {}, undefined, controller.signal)).rejects.toThrow(
+      AbortError,
+    )
+    await expect(sdk.get(testOrganizationName, id, { signal: controller.signal })).rejects.toThrow(AbortError)
+  })
+
+  it('should record submissions and keep uploaded sources in memory', async () => {
+    const sdk = new FakeSaladCloudTranscriptionSdk()
+    const source = { data: new Uint8Array(16), fileName: 'audio.wav' }
+    const job = await sdk.transcribe(testOrganizationName, source, { diarization: true }, 'https://example.com/hook')
+
+    expect(sdk.submissions).toEqual([
+      {
+        id: job.id,
+        organizationName: testOrganizationName,
+        source,
+        options: { diarization: true },
+        webhookUrl: 'https://example.com/hook',
+        requestOptions: undefined,
+      },
+    ])
+    expect(job.storagePath).toMatch(/-audio\.wav$/)
+    expect(job.input.url).toContain(`/organizations/${testOrganizationName}/files/${job.storagePath}?token=`)
+    expect(await sdk.files.list(testOrganizationName)).toEqual([
+      { storagePath: job.storagePath, url: expect.any(String), size: 16 },
+    ])
+    expect(await sdk.resignSource(testOrganizationName, job.storagePath!)).toContain('token=')
+
+    await sdk.waitFor(testOrganizationName, job.id, undefined, { deleteUploadAfterCompletion: job })
+    expect(await sdk.files.list(testOrganizationName)).toEqual([])
+  })
+
+  it('should cancel, list and filter jobs', async () => {
+    const sdk = new FakeSaladCloudTranscriptionSdk()
+    sdk.queueScript({ metadata: { customer: 'acme' } })
+    const first = await sdk.transcribe(testOrganizationName, remoteSource)
+    const second = await sdk.transcribe(testOrganizationName, remoteSource)
+    await sdk.transcribe('other-organization', remoteSource)
+
+    await sdk.stop(testOrganizationName, second.id)
+    const cancelled = sdk.getJob(second.id)
+    expect(cancelled?.status).toBe(Status.Failed)
+    expect(cancelled?.output).toBeUndefined()
+    expect(cancelled?.events.at(-1)?.action).toBe(EventAction.CANCELLED)
+
+    expect((await sdk.list(testOrganizationName)).items.map((job) => job.id)).toEqual([first.id, second.id])
+    expect(await sdk.list(testOrganizationName, { page: 2, pageSize: 1 })).toMatchObject({
+      items: [{ id: second.id }],
+      hasMore: true,
+    })
+    expect((await sdk.list(testOrganizationName, { metadata: { customer: 'acme' } })).items).toHaveLength(1)
+
+    const ids: string[] = []
+    for await (const job of sdk.listAll(testOrganizationName, { pageSize: 1 })) {
+      ids.push(job.id)
+    }
+    expect(ids).toEqual([first.id, second.id])
+  })
+
+  it('should stand in for the SDK, including batches and webhooks', async () => {
+    const sdk: SaladCloudTranscriptionClient = new FakeSaladCloudTranscriptionSdk()
+
+    const results = await sdk.transcribeMany(testOrganizationName, [remoteSource, remoteSource], {
+      waitForCompletion: true,
+    })
+    expect(results.map((result) => result.success && result.response.status)).toEqual([
+      Status.Succeeded,
+      Status.Succeeded,
+    ])
+
+    const { body, headers } = new WebhookTester(testWebhookSecret).createDelivery()
+    const event = await sdk.processWebhookRequest(
+      body,
+      testWebhookSecret,
+      headers['webhook-id']!,
+      headers['webhook-timestamp']!,
+      headers['webhook-signature']!,
+    )
+    expect(event.action).toBe(EventAction.SUCCEEDED)
+  })
+})
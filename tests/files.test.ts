@@ -0,0 +1,131 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { StorageFiles } from '../src/transcription/files'
+import { SaladCloudTranscriptionSdk } from '../src/transcription/transcription'
+import { getStoragePathFromUrl } from '../src/transcription/utils'
+import { testOrganizationName } from './shared'
+
+const storageUrl = 'https://storage-api.salad.com'
+
+const createFakeAxiosInstance = () => ({
+  get: vi.fn(),
+  delete: vi.fn().mockResolvedValue({ data: {} }),
+  head: vi.fn(),
+  post: vi.fn(),
+})
+
+describe('StorageFiles', () => {
+  it('should list files with their storage paths', async () => {
+    const axiosInstance = createFakeAxiosInstance()
+    axiosInstance.get.mockResolvedValue({
+      data: {
+        files: [{ url: `${storageUrl}/organizations/${testOrganizationName}/files/uploads/a%20b.mp3`, size: 42 }],
+      },
+    })
+
+    const files = await new StorageFiles(axiosInstance as any).list(testOrganizationName)
+    expect(axiosInstance.get).toHaveBeenCalledWith(`/organizations/${testOrganizationName}/files`)
+    expect(files).toEqual([
+      {
+        storagePath: 'uploads/a b.mp3',
+        url: `${storageUrl}/organizations/${testOrganizationName}/files/uploads/a%20b.mp3`,
+        size: 42,
+      },
+    ])
+  })
+
+  it('should delete a file', async () => {
+    const axiosInstance = createFakeAxiosInstance()
+    await new StorageFiles(axiosInstance as any).delete(testOrganizationName, 'a.mp3')
+    expect(axiosInstance.delete).toHaveBeenCalledWith(`/organizations/${testOrganizationName}/files/a.mp3`)
+  })
+
+  it('should sign a file with the requested lifetime', async () => {
+    const axiosInstance = createFakeAxiosInstance()
+    axiosInstance.post.mockResolvedValue({ data: { url: 'https://signed.example.com/a.mp3' } })
+
+    const url = await new StorageFiles(axiosInstance as any).sign(testOrganizationName, 'a.mp3', 3600)
+    expect(url).toBe('https://signed.example.com/a.mp3')
+    expect(axiosInstance.post).toHaveBeenCalledWith(
+      `/organizations/${testOrganizationName}/file_tokens/a.mp3`,
+      { method: 'GET', exp: 3600 },
+      { signal: undefined },
+    )
+  })
+
+  it('should read the metadata from the response headers', async () => {
+    const axiosInstance = createFakeAxiosInstance()
+    axiosInstance.head.mockResolvedValue({
+      headers: {
+        'content-length': '1024',
+        'content-type': 'audio/mpeg',
+        'last-modified': 'Wed, 01 Jan 2025 00:00:00 GMT',
+        etag: '"abc"',
+      },
+    })
+
+    await expect(new StorageFiles(axiosInstance as any).getMetadata(testOrganizationName, 'a.mp3')).resolves.toEqual({
+      storagePath: 'a.mp3',
+      size: 1024,
+      contentType: 'audio/mpeg',
+      lastModified: new Date('2025-01-01T00:00:00Z'),
+      etag: '"abc"',
+    })
+  })
+})
+
+describe('getStoragePathFromUrl', () => {
+  it('should extract the storage path from storage and signed URLs', () => {
+    expect(
+      getStoragePathFromUrl(
+        `${storageUrl}/organizations/${testOrganizationName}/files/a.mp3?token=abc`,
+        testOrganizationName,
+        storageUrl,
+      ),
+    ).toBe('a.mp3')
+    expect(
+      getStoragePathFromUrl(
+        `${storageUrl}/organizations/${testOrganizationName}/file_tokens/a.mp3`,
+        testOrganizationName,
+      ),
+    ).toBe('a.mp3')
+  })
+
+  it('should ignore URLs of other hosts and organizations', () => {
+    expect(
+      getStoragePathFromUrl(
+        `https://example.com/organizations/${testOrganizationName}/files/a.mp3`,
+        testOrganizationName,
+        storageUrl,
+      ),
+    ).toBeUndefined()
+    expect(getStoragePathFromUrl(`${storageUrl}/organizations/other/files/a.mp3`, testOrganizationName)).toBeUndefined()
+  })
+})
+
+describe('resignSource', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('should sign the upload with the configured lifetime unless one is given', async () => {
+    const sdk = new SaladCloudTranscriptionSdk({ apiKey: 'test-api-key', upload: { signedUrlExpirySeconds: 7200 } })
+    const post = vi
+      .spyOn((sdk as any).axiosInstance, 'post')
+      .mockResolvedValue({ data: { url: 'https://signed.example.com/a.mp3' } })
+
+    await expect(sdk.resignSource(testOrganizationName, 'a.mp3')).resolves.toBe('https://signed.example.com/a.mp3')
+    await sdk.resignSource(testOrganizationName, 'a.mp3', 60)
+    expect(post).toHaveBeenNthCalledWith(
+      1,
+      `/organizations/${testOrganizationName}/file_tokens/a.mp3`,
+      { method: 'GET', exp: 7200 },
+      { signal: undefined },
+    )
+    expect(post).toHaveBeenNthCalledWith(
+      2,
+      `/organizations/${testOrganizationName}/file_tokens/a.mp3`,
+      { method: 'GET', exp: 60 },
+      { signal: undefined },
+    )
+  })
+})
@@ -0,0 +1,125 @@
+import fsPromises from 'fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest'
+import { InvalidMediaError } from '../src/transcription/errors'
+import { getTranscriptionLocalFileSource, validateMediaFile } from '../src/transcription/node'
+import { detectMediaContainer } from '../src/transcription/node/media'
+import { MediaContainer } from '../src/transcription/types'
+import { createAxiosInstance, testOrganizationName } from './shared'
+
+const ascii = (text: string) => Array.from(text, (char) => char.charCodeAt(0))
+
+const headers: Record<MediaContainer, number[]> = {
+  [MediaContainer.Wav]: [...ascii('RIFF'), 0x24, 0, 0, 0, ...ascii('WAVEfmt ')],
+  [MediaContainer.Mp3]: [0xff, 0xfb, 0x90, 0x64],
+  [MediaContainer.Flac]: ascii('fLaC'),
+  [MediaContainer.Ogg]: ascii('OggS'),
+  [MediaContainer.Mp4]: [0, 0, 0, 0x20, ...ascii('ftypM4A ')],
+  [MediaContainer.WebM]: [0x1a, 0x45, 0xdf, 0xa3, 0x9f, 0x42, 0x82, 0x84, ...ascii('webm')],
+  [MediaContainer.Mkv]: [0x1a, 0x45, 0xdf, 0xa3, 0xa3, 0x42, 0x82, 0x88, ...ascii('matroska')],
+  [MediaContainer.Aac]: [0xff, 0xf1, 0x50, 0x80],
+  [MediaContainer.Aiff]: [...ascii('FORM'), 0, 0, 0x10, 0, ...ascii('AIFFCOMM')],
+  [MediaContainer.Asf]: [
+    0x30, 0x26, 0xb2, 0x75, 0x8e, 0x66, 0xcf, 0x11, 0xa6, 0xd9, 0x00, 0xaa, 0x00, 0x62, 0xce, 0x6c,
+  ],
+  [MediaContainer.Avi]: [...ascii('RIFF'), 0, 0, 0x10, 0, ...ascii('AVI LIST')],
+}
+
+describe('detectMediaContainer', () => {
+  it.each(Object.entries(headers))('should detect %s', (container, header) => {
+    expect(detectMediaContainer(Uint8Array.from([...header, 0, 0, 0, 0]))).toBe(container)
+  })
+
+  it('should detect AIFF-C like AIFF', () => {
+    expect(detectMediaContainer(Uint8Array.from([...ascii('FORM'), 0, 0, 0x10, 0, ...ascii('AIFC')]))).toBe(
+      MediaContainer.Aiff,
+    )
+  })
+})
+
+describe('validateMediaFile', () => {
+  let tempDir: string
+
+  const writeFile = async (name: string, content: number[] | Buffer) => {
+    const filePath = path.join(tempDir, name)
+    await fsPromises.writeFile(filePath, Buffer.from(content))
+    return filePath
+  }
+
+  beforeAll(async () => {
+    tempDir = await fsPromises.mkdtemp(path.join(os.tmpdir(), 'media-validation-'))
+  })
+
+  afterAll(async () => {
+    await fsPromises.rm(tempDir, { recursive: true, force: true })
+  })
+
+  it('should return the size and container of a supported file', async () => {
+    const filePath = await writeFile('audio.flac', [...headers[MediaContainer.Flac], 1, 2, 3])
+    await expect(validateMediaFile(filePath)).resolves.toEqual({
+      filePath,
+      size: 7,
+      container: MediaContainer.Flac,
+    })
+  })
+
+  it('should detect mp3 after an ID3v2 tag larger than the header', async () => {
+    // A 10-byte ID3v2 header declaring a 5000-byte tag (synchsafe 0x00 0x00 0x27 0x08).
+    const tag = Buffer.concat([Buffer.from([...ascii('ID3'), 4, 0, 0, 0, 0, 0x27, 0x08]), Buffer.alloc(5000)])
+    const filePath = await writeFile('tagged.mp3', Buffer.concat([tag, Buffer.from(headers[MediaContainer.Mp3])]))
+    await expect(validateMediaFile(filePath)).resolves.toMatchObject({ container: MediaContainer.Mp3 })
+  })
+
+  it('should reject empty files', async () => {
+    const filePath = await writeFile('empty.wav', [])
+    await expect(validateMediaFile(filePath)).rejects.toThrow('Invalid media file "empty.wav": The file is empty')
+  })
+
+  it('should reject unsupported files', async () => {
+    const filePath = await writeFile('notes.txt', ascii('hello world'))
+    const error = await validateMediaFile(filePath).catch((error) => error)
+    expect(error).toBeInstanceOf(InvalidMediaError)
+    expect(error.message).toBe('Invalid media file "notes.txt": The file format is not supported')
+  })
+
+  it('should reject files larger than the maximum size', async () => {
+    const filePath = await writeFile('large.ogg', [...headers[MediaContainer.Ogg], ...new Array(96).fill(0)])
+    await expect(validateMediaFile(filePath, { maxFileSizeBytes: 64 })).rejects.toThrow(
+      'The file size of 100 bytes exceeds the maximum of 64 bytes',
+    )
+  })
+
+  it('should reject missing files', async () => {
+    await expect(validateMediaFile(path.join(tempDir, 'missing.mp4'))).rejects.toThrow(
+      'Invalid media file "missing.mp4": File not found',
+    )
+  })
+
+  it('should fail before uploading an invalid file when validation is enabled', async () => {
+    const axiosInstance = createAxiosInstance('put', {})
+    const filePath = await writeFile('corrupt.mp4', ascii('not a video'))
+    await expect(
+      getTranscriptionLocalFileSource(axiosInstance as any, filePath, testOrganizationName, undefined, undefined, {
+        validateMedia: true,
+      }),
+    ).rejects.toBeInstanceOf(InvalidMediaError)
+    expect(axiosInstance.put).not.toHaveBeenCalled()
+  })
+
+  it('should upload files of unrecognized formats by default', async () => {
+    const axiosInstance = {
+      put: vi.fn().mockResolvedValue({ data: {} }),
+      post: vi.fn().mockResolvedValue({ data: { url: 'https://signed.example.com/audio.opus' } }),
+    }
+    const filePath = await writeFile('audio.opus', ascii('unrecognized audio'))
+    await expect(
+      getTranscriptionLocalFileSource(axiosInstance as any, filePath, testOrganizationName),
+    ).resolves.toEqual({
+      url: 'https://signed.example.com/audio.opus',
+      storagePath: expect.stringMatching(/-audio\.opus$/),
+      deduplicated: false,
+    })
+    expect(axiosInstance.put).toHaveBeenCalledTimes(1)
+  })
+})
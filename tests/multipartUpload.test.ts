@@ -0,0 +1,356 @@
+import axios from 'axios'
+import fsPromises from 'fs/promises'
+import http from 'node:http'
+import { AddressInfo } from 'node:net'
+import os from 'node:os'
+import path from 'node:path'
+import { Readable } from 'node:stream'
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import { getTranscriptionLocalFileSource, hashFile, uploadFileInParts } from '../src/transcription/node'
+import { UploadPhase, UploadProgress } from '../src/transcription/types'
+import { InMemoryUploadCache } from '../src/transcription/uploadCache'
+import { getTranscriptionDataSource, resolveRetryPolicy } from '../src/transcription/utils'
+import { testOrganizationName } from './shared'
+
+const partLatencyMs = 100
+const partSizeBytes = 64 * 1024
+const fileSize = partSizeBytes * 6 + 123
+
+/**
+ * A local stand-in for the storage API that delays every part upload and tracks how many parts are in flight.
+ */
+const createStorageServer = () => {
+  const stats = {
+    inFlight: 0,
+    maxInFlight: 0,
+    receivedBytes: 0,
+    parts: [] as number[],
+    completedParts: 0,
+    singleUploads: [] as string[],
+    signedExpirySeconds: [] as number[],
+    storedFiles: new Set<string>(),
+  }
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost')
+    const chunks: Buffer[] = []
+    req.on('data', (chunk: Buffer) => chunks.push(chunk))
+    req.on('end', () => {
+      const body = Buffer.concat(chunks)
+      res.setHeader('Content-Type', 'application/json')
+
+      if (req.method === 'HEAD') {
+        res.statusCode = stats.storedFiles.has(url.pathname) ? 200 : 404
+        res.end()
+      } else if (url.searchParams.get('action') === 'mpu-create') {
+        res.end(JSON.stringify({ uploadId: 'upload-1' }))
+      } else if (url.pathname.includes('/file_parts/')) {
+        const partNumber = Number(url.searchParams.get('partNumber'))
+        stats.inFlight++
+        stats.maxInFlight = Math.max(stats.maxInFlight, stats.inFlight)
+        setTimeout(() => {
+          stats.inFlight--
+          stats.receivedBytes += body.length
+          stats.parts.push(partNumber)
+          res.end(JSON.stringify({ etag: `etag-${partNumber}`, partNumber }))
+        }, partLatencyMs)
+      } else if (url.searchParams.get('action') === 'mpu-complete') {
+        stats.completedParts = JSON.parse(body.toString()).parts.length
+        stats.storedFiles.add(url.pathname)
+        res.end('{}')
+      } else if (url.pathname.includes('/file_tokens/')) {
+        stats.signedExpirySeconds.push(JSON.parse(body.toString()).exp)
+        res.end(JSON.stringify({ url: `http://localhost${url.pathname}?token=signed` }))
+      } else {
+        stats.singleUploads.push(body.toString('latin1'))
+        stats.storedFiles.add(url.pathname)
+        res.end('{}')
+      }
+    })
+  })
+  return { server, stats }
+}
+
+const startStorageServer = async () => {
+  const { server, stats } = createStorageServer()
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  const { port } = server.address() as AddressInfo
+  const axiosInstance = axios.create({ baseURL: `http://127.0.0.1:${port}` })
+  const close = () => new Promise((resolve) => server.close(resolve))
+  return { axiosInstance, stats, close }
+}
+
+describe('multipart upload', () => {
+  let tempDir: string
+  let filePath: string
+
+  beforeAll(async () => {
+    tempDir = await fsPromises.mkdtemp(path.join(os.tmpdir(), 'multipart-upload-'))
+    filePath = path.join(tempDir, 'audio.mp3')
+    await fsPromises.writeFile(filePath, Buffer.alloc(fileSize, 1))
+  })
+
+  afterAll(async () => {
+    await fsPromises.rm(tempDir, { recursive: true, force: true })
+  })
+
+  const runUpload = async (concurrency: number) => {
+    const { axiosInstance, stats, close } = await startStorageServer()
+
+    try {
+      await uploadFileInParts(
+        axiosInstance,
+        'audio.mp3',
+        filePath,
+        fileSize,
+        testOrganizationName,
+        partSizeBytes,
+        undefined,
+        resolveRetryPolicy(),
+        undefined,
+        undefined,
+        concurrency,
+      )
+      return stats
+    } finally {
+      await close()
+    }
+  }
+
+  it('should upload up to the configured number of parts at the same time', async () => {
+    const sequential = await runUpload(1)
+    const parallel = await runUpload(3)
+
+    // The parts in flight are counted by the server, so the check does not depend on timing.
+    expect(sequential.maxInFlight).toBe(1)
+    expect(parallel.maxInFlight).toBe(3)
+    expect(parallel.receivedBytes).toBe(fileSize)
+    expect(parallel.completedParts).toBe(7)
+    expect([...parallel.parts].sort((a, b) => a - b)).toEqual([1, 2, 3, 4, 5, 6, 7])
+  })
+
+  it('should use the multipart options from the upload configuration', async () => {
+    const { axiosInstance, stats, close } = await startStorageServer()
+
+    try {
+      const { url } = await getTranscriptionLocalFileSource(
+        axiosInstance,
+        filePath,
+        testOrganizationName,
+        undefined,
+        resolveRetryPolicy(),
+        {
+          multipartThresholdBytes: partSizeBytes,
+          partSizeBytes: partSizeBytes * 2,
+          concurrency: 2,
+          signedUrlExpirySeconds: 3 * 24 * 60 * 60,
+        },
+      )
+
+      expect(url).toContain('token=signed')
+      expect(stats.signedExpirySeconds).toEqual([3 * 24 * 60 * 60])
+      expect(stats.maxInFlight).toBe(2)
+      expect(stats.completedParts).toBe(4)
+      expect(stats.receivedBytes).toBe(fileSize)
+    } finally {
+      await close()
+    }
+  })
+})
+
+describe('in-memory and stream uploads', () => {
+  it('should upload a small File with a single request under its name', async () => {
+    const { axiosInstance, stats, close } = await startStorageServer()
+    const progress: UploadProgress[] = []
+
+    try {
+      const file = new File(['audio-bytes'], 'clip.wav')
+      const { url } = await getTranscriptionDataSource(
+        axiosInstance,
+        file,
+        testOrganizationName,
+        undefined,
+        resolveRetryPolicy(),
+        { onUploadProgress: (event) => progress.push(event) },
+      )
+
+      expect(url).toMatch(/\/file_tokens\/[0-9a-f-]{36}-clip\.wav\?token=signed$/)
+      expect(stats.singleUploads).toHaveLength(1)
+      expect(stats.singleUploads[0]).toContain('filename="clip.wav"')
+      expect(stats.singleUploads[0]).toContain('audio-bytes')
+      expect(progress[progress.length - 1]).toEqual({ phase: UploadPhase.Signing, bytesSent: 11, totalBytes: 11 })
+    } finally {
+      await close()
+    }
+  })
+
+  it('should upload a large ArrayBuffer in parts', async () => {
+    const { axiosInstance, stats, close } = await startStorageServer()
+
+    try {
+      const { url } = await getTranscriptionDataSource(
+        axiosInstance,
+        new Uint8Array(fileSize).buffer,
+        testOrganizationName,
+        undefined,
+        resolveRetryPolicy(),
+        { multipartThresholdBytes: partSizeBytes, partSizeBytes, concurrency: 4 },
+      )
+
+      expect(url).toMatch(/-file\?token=signed$/)
+      expect(stats.singleUploads).toHaveLength(0)
+      expect(stats.maxInFlight).toBe(4)
+      expect(stats.completedParts).toBe(7)
+      expect(stats.receivedBytes).toBe(fileSize)
+    } finally {
+      await close()
+    }
+  })
+
+  it('should upload a Buffer with a file name with a single request', async () => {
+    const { axiosInstance, stats, close } = await startStorageServer()
+
+    try {
+      const { url, storagePath } = await getTranscriptionDataSource(
+        axiosInstance,
+        { data: Buffer.from('buffered-audio'), fileName: 'memo.ogg' },
+        testOrganizationName,
+      )
+
+      expect(url).toMatch(/-memo\.ogg\?token=signed$/)
+      expect(url).toContain(`/file_tokens/${storagePath}?`)
+      expect(stats.singleUploads).toHaveLength(1)
+      expect(stats.singleUploads[0]).toContain('filename="memo.ogg"')
+      expect(stats.singleUploads[0]).toContain('buffered-audio')
+    } finally {
+      await close()
+    }
+  })
+
+  it('should upload a short stream with a single request', async () => {
+    const { axiosInstance, stats, close } = await startStorageServer()
+
+    try {
+      await getTranscriptionDataSource(
+        axiosInstance,
+        Readable.from([Buffer.from('streamed-'), Buffer.from('audio')]),
+        testOrganizationName,
+      )
+
+      expect(stats.singleUploads).toHaveLength(1)
+      expect(stats.singleUploads[0]).toContain('streamed-audio')
+      expect(stats.completedParts).toBe(0)
+    } finally {
+      await close()
+    }
+  })
+
+  it('should upload a stream of unknown length in parts, one part at a time', async () => {
+    const { axiosInstance, stats, close } = await startStorageServer()
+    const progress: UploadProgress[] = []
+    // Chunks that do not line up with the part boundaries.
+    const chunkSize = 50 * 1024
+    const stream = Readable.from(
+      Array.from({ length: Math.ceil(fileSize / chunkSize) }, (_, index) =>
+        Buffer.alloc(Math.min(chunkSize, fileSize - index * chunkSize), 1),
+      ),
+    )
+
+    try {
+      const { url } = await getTranscriptionDataSource(
+        axiosInstance,
+        { data: stream, fileName: 'live.webm' },
+        testOrganizationName,
+        undefined,
+        resolveRetryPolicy(),
+        { partSizeBytes, concurrency: 2, onUploadProgress: (event) => progress.push(event) },
+      )
+
+      expect(url).toMatch(/-live\.webm\?token=signed$/)
+      expect(stats.singleUploads).toHaveLength(0)
+      expect(stats.maxInFlight).toBe(2)
+      expect(stats.completedParts).toBe(7)
+      expect(stats.receivedBytes).toBe(fileSize)
+      expect(progress[0]).toEqual({ phase: UploadPhase.Creating, bytesSent: 0, totalBytes: undefined })
+      expect(progress[progress.length - 1]).toEqual({
+        phase: UploadPhase.Signing,
+        bytesSent: fileSize,
+        totalBytes: fileSize,
+      })
+    } finally {
+      await close()
+    }
+  })
+})
+
+describe('deduplicated uploads', () => {
+  let tempDir: string
+  let filePath: string
+  let copyPath: string
+
+  beforeAll(async () => {
+    tempDir = await fsPromises.mkdtemp(path.join(os.tmpdir(), 'deduplicated-upload-'))
+    filePath = path.join(tempDir, 'interview.wav')
+    copyPath = path.join(tempDir, 'interview-copy.wav')
+    const content = Buffer.from('RIFF\x24\x00\x00\x00WAVEfmt audio', 'latin1')
+    await fsPromises.writeFile(filePath, content)
+    await fsPromises.writeFile(copyPath, content)
+  })
+
+  afterAll(async () => {
+    await fsPromises.rm(tempDir, { recursive: true, force: true })
+  })
+
+  it('should upload a file once and sign the stored file for identical content', async () => {
+    const { axiosInstance, stats, close } = await startStorageServer()
+    const cache = new InMemoryUploadCache()
+    const hash = await hashFile(filePath)
+
+    try {
+      const upload = (source: string) =>
+        getTranscriptionLocalFileSource(axiosInstance, source, testOrganizationName, undefined, resolveRetryPolicy(), {
+          deduplicate: { cache },
+        })
+
+      const first = await upload(filePath)
+      const second = await upload(copyPath)
+
+      expect(hash).toMatch(/^[0-9a-f]{64}$/)
+      expect(first.url).toContain(`/file_tokens/${hash}.wav?token=signed`)
+      expect(second).toEqual({ url: first.url, storagePath: `${hash}.wav`, deduplicated: true })
+      expect(stats.singleUploads).toHaveLength(1)
+      await expect(cache.get(hash)).resolves.toBe(`${hash}.wav`)
+    } finally {
+      await close()
+    }
+  })
+
+  it('should find the file in storage without a cache, and upload it again once it is gone', async () => {
+    const { axiosInstance, stats, close } = await startStorageServer()
+    const hash = await hashFile(filePath)
+    const cache = new InMemoryUploadCache()
+    await cache.set(hash, 'deleted-upload.wav')
+
+    try {
+      const upload = (deduplicate: true | { cache: InMemoryUploadCache }) =>
+        getTranscriptionLocalFileSource(
+          axiosInstance,
+          filePath,
+          testOrganizationName,
+          undefined,
+          resolveRetryPolicy(),
+          {
+            deduplicate,
+          },
+        )
+
+      await upload({ cache })
+      expect(stats.singleUploads).toHaveLength(1)
+      await expect(cache.get(hash)).resolves.toBe(`${hash}.wav`)
+
+      await upload(true)
+      expect(stats.singleUploads).toHaveLength(1)
+    } finally {
+      await close()
+    }
+  })
+})
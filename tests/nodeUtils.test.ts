@@ -1,10 +1,13 @@
 import FormData from 'form-data'
 import fsPromises from 'fs/promises'
+import os from 'node:os'
 import path from 'node:path'
 import { Readable } from 'node:stream'
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
 import { oneDayInSeconds } from '../src/transcription/constants'
 import * as utils from '../src/transcription/node'
+import { UploadPhase } from '../src/transcription/types'
+import { resolveRetryPolicy } from '../src/transcription/utils'
 import {
   completeUpload,
   createFormData,
@@ -91,6 +94,7 @@ describe('uploadFile', () => {
     expect(result).toEqual(uploadResponse)
     expect(axiosInstance.put).toHaveBeenCalledWith(testUrl, formData, {
       headers: formData.getHeaders(),
+      signal: undefined,
     })
   })
 
@@ -111,7 +115,11 @@ describe('signFile', () => {
     const axiosInstance: any = createAxiosInstance('post', signResponse)
     const result = await signFile(axiosInstance as any, testUrl, testFileName)
     expect(result).toEqual(signResponse)
-    expect(axiosInstance.post).toHaveBeenCalledWith(testUrl, { method: 'GET', exp: oneDayInSeconds })
+    expect(axiosInstance.post).toHaveBeenCalledWith(
+      testUrl,
+      { method: 'GET', exp: oneDayInSeconds },
+      { signal: undefined },
+    )
   })
 
   it('should throw an error on failure', async () => {
@@ -148,6 +156,27 @@ describe('uploadPart', () => {
       { headers: { 'Content-Type': 'application/octet-stream' } },
     )
   })
+
+  it('should retry transient failures', async () => {
+    const axiosInstance: any = {
+      put: vi
+        .fn()
+        .mockRejectedValueOnce(Object.assign(new Error('Bad Gateway'), { response: { status: 502, headers: {} } }))
+        .mockResolvedValue({ data: testPartResponse }),
+    }
+    const retryPolicy = resolveRetryPolicy({ initialDelayMs: 1 })
+    const result = await uploadPart(
+      axiosInstance,
+      testUrl,
+      testUploadId,
+      partNumber,
+      testBuffer,
+      undefined,
+      retryPolicy,
+    )
+    expect(result).toEqual(testPartResponse)
+    expect(axiosInstance.put).toHaveBeenCalledTimes(2)
+  })
 })
 
 describe('completeUpload', () => {
@@ -248,4 +277,86 @@ describe('uploadFileInParts', () => {
       `/organizations/${testOrganizationName}/files/${testFileName}?action=mpu-complete&uploadId=${testUploadId}`,
     )
   })
+
+  it('should resume an upload from its checkpoint', async () => {
+    const axiosInstance: any = createAxiosInstance('put', { etag: 'etag-2', partNumber: 2 })
+    const checkpointPath = path.join(os.tmpdir(), `resume-test-${process.pid}.json`)
+
+    await utils.uploadFileInParts(
+      axiosInstance,
+      testFileName,
+      testFilePath,
+      testFileSize,
+      testOrganizationName,
+      testMaxChunkSize,
+      undefined,
+      undefined,
+      {
+        checkpointPath,
+        mtimeMs: 1,
+        checkpoint: {
+          organizationName: testOrganizationName,
+          filePath: testFilePath,
+          fileSize: testFileSize,
+          mtimeMs: 1,
+          partSizeBytes: testMaxChunkSize,
+          uniqueFileName: testFileName,
+          uploadId: testUploadId,
+          parts: [{ etag: 'etag-1', partNumber: 1 }],
+        },
+      },
+    )
+
+    // Only the missing part is uploaded before completing the resumed session.
+    expect(axiosInstance.put).toHaveBeenCalledTimes(2)
+    expect(axiosInstance.put.mock.calls[0][0]).toBe(
+      `/organizations/${testOrganizationName}/file_parts/${testFileName}?uploadId=${testUploadId}&partNumber=2`,
+    )
+    expect(JSON.parse(axiosInstance.put.mock.calls[1][1])).toEqual({
+      parts: [
+        { etag: 'etag-1', partNumber: 1 },
+        { etag: 'etag-2', partNumber: 2 },
+      ],
+    })
+    // The completed session cannot be resumed, so its checkpoint is gone even before the file is signed.
+    await expect(fsPromises.access(checkpointPath)).rejects.toThrow()
+  })
+
+  it('should report the upload progress of each phase', async () => {
+    const axiosInstance: any = {
+      put: vi.fn().mockImplementation(async (_url: string, data: any, config: any) => {
+        config?.onUploadProgress?.({ loaded: data?.length ?? 0 })
+        return { data: { uploadId: testUploadId, etag: 'etag', partNumber: 1 } }
+      }),
+    }
+    const onUploadProgress = vi.fn()
+
+    await utils.uploadFileInParts(
+      axiosInstance,
+      testFileName,
+      testFilePath,
+      testFileSize,
+      testOrganizationName,
+      testMaxChunkSize,
+      undefined,
+      undefined,
+      undefined,
+      onUploadProgress,
+    )
+
+    const progress = onUploadProgress.mock.calls.map(([{ phase, bytesSent, partNumber }]) => [
+      phase,
+      bytesSent,
+      partNumber,
+    ])
+    expect(progress).toEqual([
+      [UploadPhase.Creating, 0, undefined],
+      [UploadPhase.Uploading, 0, 1],
+      [UploadPhase.Uploading, testRealChunkSize, 1],
+      [UploadPhase.Uploading, testRealChunkSize, 2],
+      [UploadPhase.Uploading, testFileSize, 2],
+      [UploadPhase.Completing, testFileSize, undefined],
+    ])
+    expect(onUploadProgress).toHaveBeenCalledWith(expect.objectContaining({ totalBytes: testFileSize }))
+  })
 })
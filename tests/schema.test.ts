@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest'
+import { TranscribeResponseSchema } from '../src/transcription/schema'
+import { testTranscribeJobResponse, testTranscriptionId, testUrl } from './shared'
+
+describe('TranscribeResponseSchema', () => {
+  it('should parse the structured transcript output into camelCase', () => {
+    const result = TranscribeResponseSchema.parse(testTranscribeJobResponse)
+
+    expect(result.id).toBe(testTranscriptionId)
+    expect(result.output).toEqual({
+      text: 'Hello world. How are you?',
+      durationInSeconds: 4.5,
+      duration: 0.00125,
+      processingTime: 2.1,
+      sentenceLevelTimestamps: [
+        { text: 'Hello world.', start: 0, end: 1.5, speaker: 'SPEAKER_00', words: undefined },
+        { text: 'How are you?', start: 2, end: 4.5, speaker: 'SPEAKER_01', words: undefined },
+      ],
+      wordSegments: testTranscribeJobResponse.output.word_segments,
+      srtContent: undefined,
+      summary: 'A greeting.',
+      llmTranslation: { german: 'Hallo Welt. Wie geht es dir?' },
+      srtTranslation: undefined,
+      overallSentiment: undefined,
+      overallClassification: undefined,
+    })
+  })
+
+  it('should parse a file output', () => {
+    const result = TranscribeResponseSchema.parse({
+      ...testTranscribeJobResponse,
+      output: { url: testUrl, duration_in_seconds: 4.5, duration: 0.00125, processing_time: 2.1 },
+    })
+
+    expect(result.output).toEqual({ url: testUrl, durationInSeconds: 4.5, duration: 0.00125, processingTime: 2.1 })
+  })
+
+  it('should parse an error output', () => {
+    const result = TranscribeResponseSchema.parse({
+      ...testTranscribeJobResponse,
+      status: 'failed',
+      output: { error: 'Unsupported media', duration: 0.1 },
+    })
+
+    expect(result.output).toEqual({ error: 'Unsupported media', duration: 0.1 })
+  })
+
+  it('should drop malformed optional parts of the transcript output', () => {
+    const result = TranscribeResponseSchema.parse({
+      ...testTranscribeJobResponse,
+      output: {
+        ...testTranscribeJobResponse.output,
+        sentence_level_timestamps: [{ text: 'Hello world.' }],
+        llm_translation: { german: 42 },
+      },
+    })
+
+    expect(result.output).toMatchObject({
+      text: 'Hello world. How are you?',
+      sentenceLevelTimestamps: undefined,
+      wordSegments: testTranscribeJobResponse.output.word_segments,
+      llmTranslation: undefined,
+    })
+  })
+})
@@ -7,3 +7,47 @@ export const testFileSize = 1000
 export const testMaxChunkSize = 500
 export const testNumChunks = Math.ceil(testFileSize / testMaxChunkSize)
 export const testRealChunkSize = Math.ceil(testFileSize / testNumChunks)
+export const testTranscriptionId = 'f1d2e3c4-0000-4000-8000-000000000000'
+export const testTranscribeJobResponse = {
+  id: testTranscriptionId,
+  input: { url: testUrl, word_level_timestamps: true, diarization: true },
+  inferenceEndpointName: 'transcribe',
+  status: 'succeeded',
+  events: [
+    { action: 'created', time: '2025-01-01T00:00:00Z' },
+    { action: 'succeeded', time: '2025-01-01T00:01:00Z' },
+  ],
+  organizationName: testOrganizationName,
+  output: {
+    text: 'Hello world. How are you?',
+    duration_in_seconds: 4.5,
+    duration: 0.00125,
+    processing_time: 2.1,
+    sentence_level_timestamps: [
+      { text: 'Hello world.', timestamp: [0, 1.5], speaker: 'SPEAKER_00' },
+      { text: 'How are you?', start: 2, end: 4.5, speaker: 'SPEAKER_01' },
+    ],
+    word_segments: [
+      { word: 'Hello', start: 0, end: 0.7, score: 0.98, speaker: 'SPEAKER_00' },
+      { word: 'world.', start: 0.8, end: 1.5, score: 0.95, speaker: 'SPEAKER_00' },
+      { word: 'How', start: 2, end: 2.6, score: 0.97, speaker: 'SPEAKER_01' },
+      { word: 'are', start: 2.7, end: 3.2, score: 0.99, speaker: 'SPEAKER_01' },
+      { word: 'you?', start: 3.3, end: 4.5, score: 0.96, speaker: 'SPEAKER_01' },
+    ],
+    summary: 'A greeting.',
+    llm_translation: { german: 'Hallo Welt. Wie geht es dir?' },
+  },
+  createTime: '2025-01-01T00:00:00Z',
+  updateTime: '2025-01-01T00:01:00Z',
+}
+
+export const testWebhookSecret = `whsec_${Buffer.from('test-webhook-secret').toString('base64')}`
+
+/** The test job as webhooks carry it, with the snake_case keys the API returns. */
+export const testWebhookJob = (({ inferenceEndpointName, organizationName, createTime, updateTime, ...job }) => ({
+  ...job,
+  inference_endpoint_name: inferenceEndpointName,
+  organization_name: organizationName,
+  create_time: createTime,
+  update_time: updateTime,
+}))(testTranscribeJobResponse)
@@ -1,4 +1,6 @@
 import { vi } from 'vitest'
+import { Webhook } from '../../src/transcription/webhook'
+import { testWebhookSecret } from './constants'
 
 /** Helper to create an axios mock instance **/
 export const createAxiosInstance = <T extends 'put' | 'post'>(method: T, response: any, shouldError = false) => {
@@ -24,3 +26,16 @@ export const setupFakeFileHandle = (totalSize: number, numChunks: number, realCh
     close: vi.fn().mockResolvedValue(undefined),
   }
 }
+
+/** Helper to sign a webhook body like SaladCloud does **/
+export const signWebhookBody = (body: unknown, webhookId = 'msg_1', timestamp = new Date()) => {
+  const payload = typeof body === 'string' ? body : JSON.stringify(body)
+  return {
+    payload,
+    headers: {
+      'webhook-id': webhookId,
+      'webhook-timestamp': String(Math.floor(timestamp.getTime() / 1000)),
+      'webhook-signature': new Webhook(testWebhookSecret).sign(webhookId, timestamp, payload),
+    },
+  }
+}
@@ -0,0 +1,112 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { WaitForTimeoutError } from '../src/transcription/errors'
+import { TranscribeResponseSchema } from '../src/transcription/schema'
+import { SaladCloudTranscriptionSdk } from '../src/transcription/transcription'
+import { Status } from '../src/transcription/types'
+import { testOrganizationName, testTranscribeJobResponse } from './shared'
+
+const testJob = TranscribeResponseSchema.parse(testTranscribeJobResponse)
+
+describe('transcribeMany', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('should report per-source results in input order', async () => {
+    const sdk = new SaladCloudTranscriptionSdk({ apiKey: 'test-api-key' })
+    vi.spyOn(sdk, 'transcribe').mockImplementation(async (_organizationName, source) => {
+      if (source === 'https://example.com/broken.mp3') {
+        throw new Error('Upload failed')
+      }
+      await new Promise((resolve) => setTimeout(resolve, source === 'https://example.com/a.mp3' ? 10 : 0))
+      return { ...testJob, id: `job-${source.slice(-5, -4)}`, status: Status.Pending }
+    })
+
+    const sources = ['https://example.com/a.mp3', 'https://example.com/broken.mp3', 'https://example.com/b.mp3']
+    const results = await sdk.transcribeMany(testOrganizationName, sources)
+
+    expect(results.map((result) => [result.index, result.source, result.success, result.id])).toEqual([
+      [0, sources[0], true, 'job-a'],
+      [1, sources[1], false, undefined],
+      [2, sources[2], true, 'job-b'],
+    ])
+    expect(results[1]).toMatchObject({ error: new Error('Upload failed') })
+  })
+
+  it('should limit the number of concurrent submissions', async () => {
+    const sdk = new SaladCloudTranscriptionSdk({ apiKey: 'test-api-key' })
+    let active = 0
+    let maxActive = 0
+    vi.spyOn(sdk, 'transcribe').mockImplementation(async () => {
+      active++
+      maxActive = Math.max(maxActive, active)
+      await new Promise((resolve) => setTimeout(resolve, 5))
+      active--
+      return testJob
+    })
+
+    const sources = Array.from({ length: 7 }, (_, i) => `https://example.com/${i}.mp3`)
+    await sdk.transcribeMany(testOrganizationName, sources, { concurrency: 2 })
+    expect(maxActive).toBe(2)
+  })
+
+  it('should wait for the jobs to finish when requested', async () => {
+    const sdk = new SaladCloudTranscriptionSdk({ apiKey: 'test-api-key' })
+    vi.spyOn(sdk, 'transcribe').mockResolvedValue({ ...testJob, status: Status.Pending })
+    const waitFor = vi.spyOn(sdk, 'waitFor').mockRejectedValue(new Error('Timeout'))
+
+    const [result] = await sdk.transcribeMany(testOrganizationName, ['https://example.com/a.mp3'], {
+      waitForCompletion: { timeoutMs: 1000 },
+    })
+
+    expect(waitFor).toHaveBeenCalledWith(testOrganizationName, testJob.id, undefined, {
+      retry: undefined,
+      timeoutMs: 1000,
+    })
+    expect(result).toMatchObject({ success: false, id: testJob.id })
+  })
+
+  it('should pass the upload of each job to waitFor when deleting uploads', async () => {
+    const sdk = new SaladCloudTranscriptionSdk({ apiKey: 'test-api-key' })
+    const job = { ...testJob, status: Status.Pending, storagePath: 'upload.wav' }
+    vi.spyOn(sdk, 'transcribe').mockResolvedValue(job)
+    const waitFor = vi.spyOn(sdk, 'waitFor').mockResolvedValue(testJob)
+
+    await sdk.transcribeMany(testOrganizationName, [new Uint8Array(8)], {
+      waitForCompletion: { deleteUploadAfterCompletion: true },
+    })
+    expect(waitFor).toHaveBeenCalledWith(testOrganizationName, testJob.id, undefined, {
+      retry: undefined,
+      deleteUploadAfterCompletion: job,
+    })
+  })
+})
+
+describe('waitFor', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('should poll once more at the deadline before timing out', async () => {
+    const sdk = new SaladCloudTranscriptionSdk({ apiKey: 'test-api-key' })
+    const getJob = vi
+      .spyOn((sdk as any).saladCloudSdk.inferenceEndpoints, 'getInferenceEndpointJob')
+      .mockResolvedValueOnce({ data: { ...testTranscribeJobResponse, status: Status.Running } })
+      .mockResolvedValueOnce({ data: testTranscribeJobResponse })
+
+    const job = await sdk.waitFor(testOrganizationName, testJob.id, undefined, { timeoutMs: 20, intervalMs: 1000 })
+    expect(job.status).toBe(Status.Succeeded)
+    expect(getJob).toHaveBeenCalledTimes(2)
+  })
+
+  it('should time out with the last status when the final poll is not complete', async () => {
+    const sdk = new SaladCloudTranscriptionSdk({ apiKey: 'test-api-key' })
+    vi.spyOn((sdk as any).saladCloudSdk.inferenceEndpoints, 'getInferenceEndpointJob').mockResolvedValue({
+      data: { ...testTranscribeJobResponse, status: Status.Running },
+    })
+
+    await expect(
+      sdk.waitFor(testOrganizationName, testJob.id, undefined, { timeoutMs: 20, intervalMs: 1000 }),
+    ).rejects.toThrow(new WaitForTimeoutError(testJob.id, 20, Status.Running))
+  })
+})
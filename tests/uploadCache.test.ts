@@ -0,0 +1,51 @@
+import fsPromises from 'fs/promises'
+import os from 'node:os'
+import path from 'node:path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { JsonFileUploadCache } from '../src/transcription/node'
+import { InMemoryUploadCache } from '../src/transcription/uploadCache'
+
+describe('InMemoryUploadCache', () => {
+  it('should get, set and delete storage paths', async () => {
+    const cache = new InMemoryUploadCache()
+    await expect(cache.get('hash')).resolves.toBeUndefined()
+    await cache.set('hash', 'hash.mp3')
+    await expect(cache.get('hash')).resolves.toBe('hash.mp3')
+    await cache.delete('hash')
+    await expect(cache.get('hash')).resolves.toBeUndefined()
+  })
+})
+
+describe('JsonFileUploadCache', () => {
+  let tempDir: string
+  let cachePath: string
+
+  beforeEach(async () => {
+    tempDir = await fsPromises.mkdtemp(path.join(os.tmpdir(), 'upload-cache-'))
+    cachePath = path.join(tempDir, 'nested', 'uploads.json')
+  })
+
+  afterEach(async () => {
+    await fsPromises.rm(tempDir, { recursive: true, force: true })
+  })
+
+  it('should persist storage paths across instances', async () => {
+    const cache = new JsonFileUploadCache(cachePath)
+    await Promise.all([cache.set('a', 'a.mp3'), cache.set('b', 'b.wav')])
+    await cache.delete('a')
+
+    expect(JSON.parse(await fsPromises.readFile(cachePath, 'utf8'))).toEqual({ b: 'b.wav' })
+    await expect(new JsonFileUploadCache(cachePath).get('b')).resolves.toBe('b.wav')
+  })
+
+  it('should treat a missing or invalid file as an empty cache', async () => {
+    await expect(new JsonFileUploadCache(cachePath).get('a')).resolves.toBeUndefined()
+
+    await fsPromises.mkdir(path.dirname(cachePath), { recursive: true })
+    await fsPromises.writeFile(cachePath, 'not json')
+    const cache = new JsonFileUploadCache(cachePath)
+    await expect(cache.get('a')).resolves.toBeUndefined()
+    await cache.set('a', 'a.mp3')
+    await expect(new JsonFileUploadCache(cachePath).get('a')).resolves.toBe('a.mp3')
+  })
+})
@@ -1,7 +1,21 @@
-import { describe, expect, it } from 'vitest'
-import { TranslationLanguage } from '../src/transcription/types'
-import { isRemoteFile, transformTranscribeRequest } from '../src/transcription/utils'
-import { testOrganizationName, testUrl } from './shared'
+import axios from 'axios'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { FetchOutputError, TranscriptionError } from '../src/transcription/errors'
+import { TranscribeResponseSchema } from '../src/transcription/schema'
+import { Status, TranslationLanguage } from '../src/transcription/types'
+import {
+  fetchOutput,
+  filterTranscriptions,
+  getBackoffDelay,
+  getRetryAfterMs,
+  isRemoteFile,
+  readStreamInParts,
+  resolveRetryPolicy,
+  sleep,
+  transformTranscribeRequest,
+  withRetry,
+} from '../src/transcription/utils'
+import { testOrganizationName, testTranscribeJobResponse, testUrl } from './shared'
 
 describe('transformTranscribeRequest', () => {
   it('should transform a request with translation arrays and preserve extra fields', () => {
@@ -91,3 +105,236 @@ describe('isRemoteFile', () => {
     expect(isRemoteFile('not-a-url')).toBe(false)
   })
 })
+
+describe('fetchOutput', () => {
+  const { duration_in_seconds, duration, processing_time, ...fileContent } = testTranscribeJobResponse.output
+  const fileResponse = TranscribeResponseSchema.parse({
+    ...testTranscribeJobResponse,
+    output: { url: testUrl, duration_in_seconds, duration, processing_time },
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('should fetch and parse the output file into the inline output shape', async () => {
+    const getSpy = vi.spyOn(axios, 'get').mockResolvedValue({ data: fileContent })
+    const inlineResponse = TranscribeResponseSchema.parse(testTranscribeJobResponse)
+
+    const result = await fetchOutput(fileResponse)
+    expect(getSpy).toHaveBeenCalledWith(testUrl, { responseType: 'json', signal: undefined })
+    expect(result).toEqual(inlineResponse)
+  })
+
+  it('should parse an output file served as text', async () => {
+    vi.spyOn(axios, 'get').mockResolvedValue({ data: JSON.stringify(fileContent) })
+    const result = await fetchOutput(fileResponse)
+    expect(result.output).toEqual(TranscribeResponseSchema.parse(testTranscribeJobResponse).output)
+  })
+
+  it('should return responses without a file output unchanged', async () => {
+    const getSpy = vi.spyOn(axios, 'get')
+    const inlineResponse = TranscribeResponseSchema.parse(testTranscribeJobResponse)
+    expect(await fetchOutput(inlineResponse)).toBe(inlineResponse)
+    expect(getSpy).not.toHaveBeenCalled()
+  })
+
+  it('should throw a transcription error when the output file reports an error', async () => {
+    vi.spyOn(axios, 'get').mockResolvedValue({ data: { error: 'Out of memory' } })
+    await expect(fetchOutput(fileResponse)).rejects.toThrow(new TranscriptionError(fileResponse.id, 'Out of memory'))
+  })
+
+  it('should throw an error when the output file is not a valid transcript', async () => {
+    vi.spyOn(axios, 'get').mockResolvedValue({ data: { text: 42 } })
+    await expect(fetchOutput(fileResponse)).rejects.toThrow(FetchOutputError)
+
+    vi.spyOn(axios, 'get').mockResolvedValue({ data: ['not', 'an', 'object'] })
+    await expect(fetchOutput(fileResponse)).rejects.toThrow(
+      `Fetching output of transcription job ${fileResponse.id} failed: The output file is not a JSON object`,
+    )
+  })
+
+  it('should throw an error when the download fails', async () => {
+    vi.spyOn(axios, 'get').mockRejectedValue(new Error('Not Found'))
+    await expect(fetchOutput(fileResponse)).rejects.toThrow(
+      `Fetching output of transcription job ${fileResponse.id} failed: Not Found`,
+    )
+  })
+})
+
+describe('getBackoffDelay', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('should grow the delay exponentially up to the maximum', () => {
+    expect([0, 1, 2, 3].map((attempt) => getBackoffDelay(attempt, 1000, 2, 5000, 0))).toEqual([1000, 2000, 4000, 5000])
+  })
+
+  it('should randomize the delay within the jitter range', () => {
+    vi.spyOn(Math, 'random').mockReturnValueOnce(0).mockReturnValueOnce(1)
+    expect(getBackoffDelay(0, 1000, 2, 5000, 0.2)).toBe(800)
+    expect(getBackoffDelay(0, 1000, 2, 5000, 0.2)).toBe(1200)
+  })
+})
+
+describe('sleep', () => {
+  it('should resolve after the delay', async () => {
+    await expect(sleep(1)).resolves.toBeUndefined()
+  })
+
+  it('should reject when the signal is aborted', async () => {
+    const controller = new AbortController()
+    const promise = sleep(60000, controller.signal)
+    controller.abort()
+    await expect(promise).rejects.toThrow('Operation aborted')
+  })
+})
+
+describe('withRetry', () => {
+  const policy = resolveRetryPolicy({ initialDelayMs: 1, jitter: 0 })
+  const httpError = (status: number, headers: Record<string, string> = {}) =>
+    Object.assign(new Error(`Request failed with status code ${status}`), { response: { status, headers } })
+
+  it('should retry retryable statuses until the call succeeds', async () => {
+    const operation = vi.fn().mockRejectedValueOnce(httpError(502)).mockResolvedValue('ok')
+    await expect(withRetry(operation, policy)).resolves.toBe('ok')
+    expect(operation).toHaveBeenCalledTimes(2)
+  })
+
+  it('should retry retryable network error codes', async () => {
+    const operation = vi
+      .fn()
+      .mockRejectedValueOnce(Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }))
+      .mockResolvedValue('ok')
+    await expect(withRetry(operation, policy)).resolves.toBe('ok')
+  })
+
+  it('should retry errors whose cause is retryable', async () => {
+    const operation = vi
+      .fn()
+      .mockRejectedValueOnce(Object.assign(new Error('Upload failed'), { cause: httpError(503) }))
+      .mockResolvedValue('ok')
+    await expect(withRetry(operation, policy)).resolves.toBe('ok')
+  })
+
+  it('should not retry non-retryable statuses', async () => {
+    const operation = vi.fn().mockRejectedValue(httpError(400))
+    await expect(withRetry(operation, policy)).rejects.toThrow('Request failed with status code 400')
+    expect(operation).toHaveBeenCalledTimes(1)
+  })
+
+  it('should give up after the maximum number of attempts', async () => {
+    const operation = vi.fn().mockRejectedValue(httpError(500))
+    await expect(withRetry(operation, { ...policy, maxAttempts: 4 })).rejects.toThrow(
+      'Request failed with status code 500',
+    )
+    expect(operation).toHaveBeenCalledTimes(4)
+  })
+
+  it('should cap the delay requested by a large Retry-After header', async () => {
+    const operation = vi
+      .fn()
+      .mockRejectedValueOnce(httpError(429, { 'retry-after': '3600' }))
+      .mockResolvedValue('ok')
+    vi.useFakeTimers()
+    try {
+      const result = withRetry(operation, { ...policy, maxDelayMs: 10 })
+      await vi.advanceTimersByTimeAsync(10)
+      expect(operation).toHaveBeenCalledTimes(2)
+      await expect(result).resolves.toBe('ok')
+    } finally {
+      vi.useRealTimers()
+    }
+  })
+
+  it('should honor per-call overrides', () => {
+    expect(resolveRetryPolicy({ maxAttempts: 5, jitter: 0 }, { maxAttempts: 1 })).toMatchObject({
+      maxAttempts: 1,
+      jitter: 0,
+    })
+  })
+})
+
+describe('getRetryAfterMs', () => {
+  it('should parse a delay in seconds', () => {
+    expect(getRetryAfterMs({ response: { headers: { 'retry-after': '2' } } })).toBe(2000)
+  })
+
+  it('should parse an HTTP date', () => {
+    const date = new Date(Date.now() + 10000).toUTCString()
+    const delay = getRetryAfterMs({ metadata: { headers: { 'retry-after': date } } })
+    expect(delay).toBeGreaterThan(8000)
+    expect(delay).toBeLessThanOrEqual(10000)
+  })
+
+  it('should return undefined without the header', () => {
+    expect(getRetryAfterMs({ response: { headers: {} } })).toBeUndefined()
+  })
+})
+
+describe('filterTranscriptions', () => {
+  const job = TranscribeResponseSchema.parse(testTranscribeJobResponse)
+  const items = [
+    { ...job, id: 'a', status: Status.Succeeded, createTime: '2025-01-01T00:00:00Z', metadata: { team: 'news' } },
+    { ...job, id: 'b', status: Status.Running, createTime: '2025-01-02T00:00:00Z', metadata: { team: 'sports' } },
+    { ...job, id: 'c', status: Status.Failed, createTime: '2025-01-03T00:00:00Z' },
+  ]
+  const ids = (filters: Parameters<typeof filterTranscriptions>[1]) =>
+    filterTranscriptions(items, filters).map((item) => item.id)
+
+  it('should filter by status', () => {
+    expect(ids({ status: Status.Running })).toEqual(['b'])
+    expect(ids({ status: [Status.Succeeded, Status.Failed] })).toEqual(['a', 'c'])
+  })
+
+  it('should filter by creation time range', () => {
+    expect(ids({ createdAfter: '2025-01-02T00:00:00Z' })).toEqual(['b', 'c'])
+    expect(ids({ createdAfter: new Date('2025-01-01T12:00:00Z'), createdBefore: '2025-01-02T00:00:00Z' })).toEqual([
+      'b',
+    ])
+  })
+
+  it('should filter by metadata', () => {
+    expect(ids({ metadata: { team: 'news' } })).toEqual(['a'])
+  })
+
+  it('should return all items without filters', () => {
+    expect(ids({})).toEqual(['a', 'b', 'c'])
+  })
+})
+
+describe('readStreamInParts', () => {
+  const readAll = async (stream: AsyncIterable<Uint8Array | string>, partSizeBytes: number) => {
+    const parts: Uint8Array[] = []
+    for await (const part of readStreamInParts(stream, partSizeBytes)) {
+      parts.push(part)
+    }
+    return parts
+  }
+
+  it('should split a stream into parts of the part size', async () => {
+    const stream = (async function* () {
+      yield new Uint8Array([1, 2, 3])
+      yield 'ab'
+      yield new Uint8Array([4, 5, 6, 7, 8])
+    })()
+
+    const parts = await readAll(stream, 4)
+    expect(parts.map((part) => Array.from(part))).toEqual([
+      [1, 2, 3, 97],
+      [98, 4, 5, 6],
+      [7, 8],
+    ])
+  })
+
+  it('should only allocate as much memory as a short stream needs', async () => {
+    const stream = (async function* () {
+      yield new Uint8Array([1, 2, 3])
+    })()
+
+    const [part] = await readAll(stream, 80 * 1024 * 1024)
+    expect(Array.from(part)).toEqual([1, 2, 3])
+    expect(part.buffer.byteLength).toBe(3)
+  })
+})
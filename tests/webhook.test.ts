@@ -0,0 +1,187 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { ValidationError } from '../src/transcription/errors'
+import { SaladCloudTranscriptionSdk } from '../src/transcription/transcription'
+import { EventAction, Status, WebhookEvent } from '../src/transcription/types'
+import {
+  InMemoryReplayStore,
+  Webhook,
+  WebhookReplayError,
+  WebhookRouter,
+  WebhookVerificationError,
+} from '../src/transcription/webhook'
+import {
+  signWebhookBody,
+  testOrganizationName,
+  testTranscribeJobResponse,
+  testTranscriptionId,
+  testWebhookJob,
+  testWebhookSecret,
+} from './shared'
+
+const signPayload = (body: unknown, webhookId?: string, timestamp?: Date) => {
+  const { payload, headers } = signWebhookBody(body, webhookId, timestamp)
+  return [
+    payload,
+    testWebhookSecret,
+    headers['webhook-id'],
+    headers['webhook-timestamp'],
+    headers['webhook-signature'],
+  ] as const
+}
+
+describe('processWebhookRequest', () => {
+  const sdk = new SaladCloudTranscriptionSdk({ apiKey: 'test-api-key' })
+
+  it('should return the typed event with the parsed job', async () => {
+    const event = await sdk.processWebhookRequest(...signPayload({ action: 'succeeded', data: testWebhookJob }))
+
+    expect(event.webhookId).toBe('msg_1')
+    expect(event.timestamp).toBeInstanceOf(Date)
+    expect(event.action).toBe(EventAction.SUCCEEDED)
+    expect(event.data).toMatchObject({
+      id: testTranscriptionId,
+      organizationName: testOrganizationName,
+      status: Status.Succeeded,
+      createTime: '2025-01-01T00:00:00Z',
+      input: { url: testTranscribeJobResponse.input.url, wordLevelTimestamps: true },
+    })
+  })
+
+  it('should reject payloads with an invalid signature or job', async () => {
+    const [payload, , webhookId, timestamp] = signPayload({ action: 'succeeded', data: testWebhookJob })
+    await expect(
+      sdk.processWebhookRequest(payload, testWebhookSecret, webhookId, timestamp, 'v1,invalid'),
+    ).rejects.toThrow(WebhookVerificationError)
+
+    await expect(
+      sdk.processWebhookRequest(...signPayload({ action: 'succeeded', data: { id: testTranscriptionId } })),
+    ).rejects.toThrow(ValidationError)
+  })
+})
+
+describe('webhook secret rotation', () => {
+  const sdk = new SaladCloudTranscriptionSdk({ apiKey: 'test-api-key' })
+  const body = { action: 'succeeded', data: testWebhookJob }
+  const newSecret = `whsec_${Buffer.from('new-webhook-secret').toString('base64')}`
+
+  it('should accept deliveries signed with any of the secrets and report the matching one', async () => {
+    const delivery = signPayload(body)
+    const [payload, , webhookId, timestamp, signature] = delivery
+
+    await expect(
+      sdk.processWebhookRequest(payload, [newSecret, testWebhookSecret], webhookId, timestamp, signature),
+    ).resolves.toMatchObject({ keyId: '1' })
+    await expect(
+      sdk.processWebhookRequest(
+        payload,
+        [
+          { keyId: 'current', secret: newSecret },
+          { keyId: 'previous', secret: testWebhookSecret.slice('whsec_'.length) },
+        ],
+        webhookId,
+        timestamp,
+        signature,
+      ),
+    ).resolves.toMatchObject({ keyId: 'previous' })
+    await expect(sdk.processWebhookRequest(...delivery)).resolves.toMatchObject({ keyId: '0' })
+    await expect(sdk.processWebhookRequest(payload, [newSecret], webhookId, timestamp, signature)).rejects.toThrow(
+      'No matching signature found',
+    )
+  })
+
+  it('should accept raw key bytes, sign with the first secret and reject an empty list', () => {
+    const rawKey = Buffer.from('test-webhook-secret')
+    const webhook = new Webhook([{ keyId: 'raw', secret: new Uint8Array(rawKey) }, newSecret])
+    const timestamp = new Date()
+    const payload = JSON.stringify(body)
+    const headers = {
+      'webhook-id': 'msg_1',
+      'webhook-timestamp': String(Math.floor(timestamp.getTime() / 1000)),
+      'webhook-signature': webhook.sign('msg_1', timestamp, payload),
+    }
+
+    expect(headers['webhook-signature']).toBe(new Webhook(testWebhookSecret).sign('msg_1', timestamp, payload))
+    expect(webhook.verifyWithKeyId(payload, headers)).toEqual({ payload: body, keyId: 'raw' })
+    expect(() => new Webhook([])).toThrow("Secret can't be empty.")
+  })
+})
+
+describe('webhook replay protection', () => {
+  const sdk = new SaladCloudTranscriptionSdk({ apiKey: 'test-api-key' })
+  const body = { action: 'succeeded', data: testWebhookJob }
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should reject a delivery whose webhook ID was already received', async () => {
+    const replayStore = new InMemoryReplayStore()
+    const delivery = signPayload(body, 'msg_replayed')
+
+    await expect(sdk.processWebhookRequest(...delivery, { replayStore })).resolves.toMatchObject({
+      webhookId: 'msg_replayed',
+    })
+    await expect(sdk.processWebhookRequest(...delivery, { replayStore })).rejects.toThrow(WebhookReplayError)
+    await expect(sdk.processWebhookRequest(...signPayload(body, 'msg_other'), { replayStore })).resolves.toBeDefined()
+  })
+
+  it('should accept a webhook ID again once it was deleted or expired', async () => {
+    vi.useFakeTimers()
+    const replayStore = new InMemoryReplayStore()
+
+    await expect(replayStore.add('msg_1', 60)).resolves.toBe(true)
+    await expect(replayStore.add('msg_1', 60)).resolves.toBe(false)
+    await replayStore.delete('msg_1')
+    await expect(replayStore.add('msg_1', 60)).resolves.toBe(true)
+
+    vi.advanceTimersByTime(60 * 1000)
+    await expect(replayStore.add('msg_1', 60)).resolves.toBe(true)
+  })
+
+  it('should verify timestamps with the configured tolerance', async () => {
+    const tenMinutesAgo = new Date(Date.now() - 10 * 60 * 1000)
+    const delivery = signPayload(body, 'msg_1', tenMinutesAgo)
+
+    await expect(sdk.processWebhookRequest(...delivery)).rejects.toThrow('Message timestamp too old')
+    await expect(sdk.processWebhookRequest(...delivery, { toleranceInSeconds: 15 * 60 })).resolves.toBeDefined()
+    expect(() => new Webhook(testWebhookSecret, { toleranceInSeconds: -1 })).toThrow()
+  })
+})
+
+describe('WebhookRouter', () => {
+  const createEvent = (action: string): WebhookEvent => ({
+    webhookId: 'msg_1',
+    timestamp: new Date(),
+    action,
+    data: {} as WebhookEvent['data'],
+  })
+
+  it('should call the handlers of the action in registration order', async () => {
+    const calls: string[] = []
+    const router = new WebhookRouter()
+      .on(EventAction.SUCCEEDED, async () => {
+        await new Promise((resolve) => setTimeout(resolve, 5))
+        calls.push('first')
+      })
+      .on(EventAction.SUCCEEDED, () => {
+        calls.push('second')
+      })
+      .on(EventAction.FAILED, () => {
+        calls.push('failed')
+      })
+
+    await expect(router.dispatch(createEvent(EventAction.SUCCEEDED))).resolves.toBe(true)
+    expect(calls).toEqual(['first', 'second'])
+  })
+
+  it('should pass events without a handler to the fallback', async () => {
+    const onUnknown = vi.fn()
+    const router = new WebhookRouter().on(EventAction.SUCCEEDED, vi.fn())
+    await expect(router.dispatch(createEvent('paused'))).resolves.toBe(false)
+
+    router.onUnknown(onUnknown)
+    await expect(router.dispatch(createEvent('paused'))).resolves.toBe(true)
+    await router.dispatch(createEvent(EventAction.STARTED))
+    expect(onUnknown.mock.calls.map(([event]) => event.action)).toEqual(['paused', EventAction.STARTED])
+  })
+})
@@ -0,0 +1,216 @@
+import http from 'http'
+import { AddressInfo } from 'net'
+import { describe, expect, it, vi } from 'vitest'
+import { EventAction } from '../src/transcription/types'
+import { InMemoryReplayStore } from '../src/transcription/webhook'
+import {
+  createExpressWebhookMiddleware,
+  createWebhookRequestListener,
+  FastifyWebhookInstance,
+  fastifyWebhookPlugin,
+  WebhookHandlerOptions,
+} from '../src/webhookAdapters'
+import { signWebhookBody, testTranscriptionId, testWebhookJob, testWebhookSecret } from './shared'
+
+/**
+ * Starts a local server, sends one request to it and stops it again.
+ */
+const sendToServer = async (
+  listener: http.RequestListener,
+  body: string,
+  headers: Record<string, string> = {},
+  method = 'POST',
+) => {
+  const server = http.createServer(listener)
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  const { port } = server.address() as AddressInfo
+  try {
+    const response = await fetch(`http://127.0.0.1:${port}/webhooks`, {
+      method,
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: method === 'POST' ? body : undefined,
+    })
+    return { status: response.status, text: await response.text() }
+  } finally {
+    await new Promise((resolve) => server.close(resolve))
+  }
+}
+
+const createOptions = (): WebhookHandlerOptions & { onEvent: ReturnType<typeof vi.fn> } => ({
+  secret: testWebhookSecret,
+  onEvent: vi.fn(),
+  onError: vi.fn(),
+})
+
+const delivery = signWebhookBody({ action: 'succeeded', data: testWebhookJob })
+
+describe('createWebhookRequestListener', () => {
+  it('should verify the raw body and pass the event to the callback', async () => {
+    const options = createOptions()
+    const { status } = await sendToServer(createWebhookRequestListener(options), delivery.payload, delivery.headers)
+
+    expect(status).toBe(204)
+    expect(options.onEvent).toHaveBeenCalledTimes(1)
+    expect(options.onEvent.mock.calls[0][0]).toMatchObject({
+      action: EventAction.SUCCEEDED,
+      data: { id: testTranscriptionId },
+    })
+  })
+
+  it('should reject unauthorized and invalid deliveries', async () => {
+    const options = createOptions()
+    const listener = createWebhookRequestListener(options)
+
+    const badSignature = await sendToServer(listener, delivery.payload, {
+      ...delivery.headers,
+      'webhook-signature': 'v1,invalid',
+    })
+    expect(badSignature).toEqual({ status: 401, text: 'No matching signature found' })
+
+    const { 'webhook-signature': _signature, ...headersWithoutSignature } = delivery.headers
+    const missingHeader = await sendToServer(listener, delivery.payload, headersWithoutSignature)
+    expect(missingHeader).toEqual({ status: 400, text: 'Missing required headers' })
+
+    const notAJob = signWebhookBody({ action: 'succeeded', data: { id: testTranscriptionId } })
+    expect((await sendToServer(listener, notAJob.payload, notAJob.headers)).status).toBe(400)
+
+    // A re-serialized body no longer matches the signature.
+    const reserialized = JSON.stringify(JSON.parse(delivery.payload), null, 2)
+    expect((await sendToServer(listener, reserialized, delivery.headers)).status).toBe(401)
+
+    expect(options.onEvent).not.toHaveBeenCalled()
+    expect(options.onError).toHaveBeenCalledTimes(4)
+  })
+
+  it('should reject replayed deliveries, but accept a retry after the callback failed', async () => {
+    const replayStore = new InMemoryReplayStore()
+    const onEvent = vi.fn().mockRejectedValueOnce(new Error('Database unavailable')).mockResolvedValue(undefined)
+    const listener = createWebhookRequestListener({ secret: testWebhookSecret, onEvent, replayStore })
+
+    expect((await sendToServer(listener, delivery.payload, delivery.headers)).status).toBe(500)
+    expect((await sendToServer(listener, delivery.payload, delivery.headers)).status).toBe(204)
+    expect(await sendToServer(listener, delivery.payload, delivery.headers)).toEqual({
+      status: 401,
+      text: 'Message msg_1 was already received',
+    })
+    expect(onEvent).toHaveBeenCalledTimes(2)
+  })
+
+  it('should fail the delivery when the callback fails, and reject other methods', async () => {
+    const listener = createWebhookRequestListener({
+      secret: testWebhookSecret,
+      onEvent: () => Promise.reject(new Error('Database unavailable')),
+    })
+    expect((await sendToServer(listener, delivery.payload, delivery.headers)).status).toBe(500)
+    expect((await sendToServer(listener, '', {}, 'GET')).status).toBe(405)
+  })
+})
+
+describe('createExpressWebhookMiddleware', () => {
+  it('should read the raw body when it is mounted before any body parser', async () => {
+    const options = createOptions()
+    const middleware = createExpressWebhookMiddleware(options)
+    const next = vi.fn()
+
+    const { status } = await sendToServer((req, res) => middleware(req, res, next), delivery.payload, delivery.headers)
+    expect(status).toBe(204)
+    expect(options.onEvent).toHaveBeenCalledTimes(1)
+    expect(next).not.toHaveBeenCalled()
+  })
+
+  it('should use a raw body read by express.raw() or captured as req.rawBody', async () => {
+    const options = createOptions()
+    const middleware = createExpressWebhookMiddleware(options)
+
+    // Stand-ins for express.raw(), and for express.json() with a verify function storing the raw body.
+    const rawParser: http.RequestListener = (req, res) => {
+      const chunks: Buffer[] = []
+      req.on('data', (chunk: Buffer) => chunks.push(chunk))
+      req.on('end', () => middleware(Object.assign(req, { body: Buffer.concat(chunks) }), res, vi.fn()))
+    }
+    const jsonParser: http.RequestListener = (req, res) => {
+      const chunks: Buffer[] = []
+      req.on('data', (chunk: Buffer) => chunks.push(chunk))
+      req.on('end', () => {
+        const rawBody = Buffer.concat(chunks)
+        middleware(Object.assign(req, { body: JSON.parse(rawBody.toString()), rawBody }), res, vi.fn())
+      })
+    }
+
+    expect((await sendToServer(rawParser, delivery.payload, delivery.headers)).status).toBe(204)
+    expect((await sendToServer(jsonParser, delivery.payload, delivery.headers)).status).toBe(204)
+    expect(options.onEvent).toHaveBeenCalledTimes(2)
+  })
+
+  it('should pass errors to next, including a body already parsed without the raw body', async () => {
+    const middleware = createExpressWebhookMiddleware({
+      secret: testWebhookSecret,
+      onEvent: () => Promise.reject(new Error('Database unavailable')),
+    })
+    const errors: unknown[] = []
+    const next = (error?: unknown) => errors.push(error)
+
+    await middleware(Object.assign(new http.IncomingMessage(null as any), { body: {} }), {} as any, next)
+    expect(String(errors[0])).toContain('mount the middleware before express.json()')
+
+    await sendToServer(
+      (req, res) =>
+        middleware(req, res, (error) => {
+          next(error)
+          res.statusCode = 500
+          res.end()
+        }),
+      delivery.payload,
+      delivery.headers,
+    )
+    expect(errors[1]).toEqual(new Error('Database unavailable'))
+  })
+})
+
+describe('fastifyWebhookPlugin', () => {
+  /**
+   * A minimal stand-in for Fastify that serves the registered route with the registered body parser.
+   */
+  const createFastify = () => {
+    let parser: Parameters<FastifyWebhookInstance['addContentTypeParser']>[2] | undefined
+    const routes = new Map<string, Parameters<FastifyWebhookInstance['post']>[1]>()
+    const fastify: FastifyWebhookInstance = {
+      addContentTypeParser: (_contentType, _options, contentTypeParser) => (parser = contentTypeParser),
+      post: (path, handler) => routes.set(path, handler),
+    }
+    const listener: http.RequestListener = (req, res) => {
+      const chunks: Buffer[] = []
+      req.on('data', (chunk: Buffer) => chunks.push(chunk))
+      req.on('end', () =>
+        parser?.(req, Buffer.concat(chunks), async (_error, body) => {
+          const reply = {
+            code: (statusCode: number) => ({
+              send: (payload?: string) => {
+                res.statusCode = statusCode
+                res.end(payload)
+              },
+            }),
+          }
+          await routes.get(req.url ?? '/')?.({ body, headers: req.headers }, reply)
+        }),
+      )
+    }
+    return { fastify, routes, listener }
+  }
+
+  it('should register a route that verifies the raw body', async () => {
+    const options = createOptions()
+    const { fastify, routes, listener } = createFastify()
+    const done = vi.fn()
+    fastifyWebhookPlugin(fastify, { ...options, path: '/webhooks' }, done)
+
+    expect(done).toHaveBeenCalledWith()
+    expect([...routes.keys()]).toEqual(['/webhooks'])
+    expect((await sendToServer(listener, delivery.payload, delivery.headers)).status).toBe(204)
+    expect(
+      (await sendToServer(listener, delivery.payload, { ...delivery.headers, 'webhook-signature': 'v1,invalid' }))
+        .status,
+    ).toBe(401)
+    expect(options.onEvent).toHaveBeenCalledTimes(1)
+  })
+})
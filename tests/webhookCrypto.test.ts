@@ -0,0 +1,98 @@
+import { webcrypto } from 'node:crypto'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { Webhook, WebhookVerificationError } from '../src/transcription/webhook'
+import { base64ToBytes, bytesToBase64 } from '../src/transcription/webhook/encoding'
+
+/**
+ * Test vectors shared by the `Buffer` and the Web Crypto implementations. The first one is the vector of the
+ * standard-webhooks specification.
+ */
+const vectors = [
+  {
+    secret: 'whsec_MfKQ9r8GKYqrTwjUPD8ILPZIo2LaLaSw',
+    msgId: 'msg_p5jXN8AQM9LWM0D4loKWxJek',
+    timestamp: 1614265330,
+    payload: '{"test": 2432232314}',
+    signature: 'v1,g0hM9SsE+OTPJTGt/tmIKtSyZlE3uFJELVlNIOLJ1OE=',
+  },
+  {
+    secret: new TextEncoder().encode('raw-signing-key-0123456789'),
+    msgId: 'msg_2',
+    timestamp: 1700000000,
+    payload: '{"action":"succeeded","data":{"text":"Grüße, 世界 🎉"}}',
+    signature: 'v1,7gJQCAk8KcjbN0wZK453KFNBLDtIz12H5sN02NT4tVk=',
+  },
+  {
+    secret: 'c2VjcmV0LWtleS13aXRob3V0LXByZWZpeA==',
+    msgId: 'msg_3',
+    timestamp: 1700000300,
+    payload: '[]',
+    signature: 'v1,FJKZKhPEHXm8sjeNzbN76Dzlc90Mxt0dXbvRxSPT9mU=',
+  },
+]
+
+describe('webhook verification with Web Crypto', () => {
+  beforeEach(() => {
+    vi.stubGlobal('crypto', webcrypto)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.unstubAllGlobals()
+  })
+
+  it.each(vectors)('should sign $msgId like the Buffer implementation', async (vector) => {
+    const webhook = new Webhook(vector.secret)
+    const timestamp = new Date(vector.timestamp * 1000)
+
+    expect(webhook.sign(vector.msgId, timestamp, vector.payload)).toBe(vector.signature)
+    await expect(webhook.signAsync(vector.msgId, timestamp, vector.payload)).resolves.toBe(vector.signature)
+    await expect(webhook.signAsync(vector.msgId, timestamp, new TextEncoder().encode(vector.payload))).resolves.toBe(
+      vector.signature,
+    )
+  })
+
+  it.each(vectors)('should verify $msgId like the Buffer implementation', async (vector) => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(vector.timestamp * 1000)
+    const webhook = new Webhook(vector.secret)
+    const headers = {
+      'webhook-id': vector.msgId,
+      'webhook-timestamp': String(vector.timestamp),
+      'webhook-signature': `v2,ignored ${vector.signature}`,
+    }
+
+    const payload = JSON.parse(vector.payload)
+    expect(webhook.verify(vector.payload, headers)).toEqual(payload)
+    await expect(webhook.verifyAsync(vector.payload, headers)).resolves.toEqual(payload)
+    await expect(webhook.verifyAsync(new TextEncoder().encode(vector.payload), headers)).resolves.toEqual(payload)
+    await expect(webhook.verifyWithKeyIdAsync(vector.payload, headers)).resolves.toEqual({ payload, keyId: '0' })
+  })
+
+  it('should reject the same deliveries as the Buffer implementation', async () => {
+    const [vector] = vectors
+    const webhook = new Webhook(['whsec_' + bytesToBase64(new Uint8Array(32)), vector.secret])
+    const headers = {
+      'webhook-id': vector.msgId,
+      'webhook-timestamp': String(vector.timestamp),
+      'webhook-signature': vector.signature,
+    }
+
+    // The vector's timestamp is far in the past.
+    await expect(webhook.verifyAsync(vector.payload, headers)).rejects.toThrow('Message timestamp too old')
+
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(vector.timestamp * 1000)
+    await expect(webhook.verifyWithKeyIdAsync(vector.payload, headers)).resolves.toMatchObject({ keyId: '1' })
+    await expect(webhook.verifyAsync(`${vector.payload} `, headers)).rejects.toThrow(WebhookVerificationError)
+    await expect(webhook.verifyAsync(vector.payload, { ...headers, 'webhook-id': '' })).rejects.toThrow(
+      'Missing required headers',
+    )
+  })
+
+  it('should encode and decode base64 like Buffer', () => {
+    const bytes = Uint8Array.from({ length: 70000 }, (_, index) => (index * 31) % 256)
+    expect(bytesToBase64(bytes)).toBe(Buffer.from(bytes).toString('base64'))
+    expect(base64ToBytes(Buffer.from(bytes).toString('base64'))).toEqual(bytes)
+  })
+})
@@ -0,0 +1,102 @@
+import http from 'http'
+import { AddressInfo } from 'net'
+import { describe, expect, it, vi } from 'vitest'
+import { SaladCloudTranscriptionSdk } from '../src/transcription/transcription'
+import { EventAction, Status } from '../src/transcription/types'
+import { Webhook, WebhookTester, WebhookVerificationError } from '../src/transcription/webhook'
+import { createWebhookRequestListener } from '../src/webhookAdapters'
+import { testWebhookSecret } from './shared'
+
+describe('WebhookTester', () => {
+  const sdk = new SaladCloudTranscriptionSdk({ apiKey: 'test-api-key' })
+  const tester = new WebhookTester(testWebhookSecret)
+
+  it.each([
+    [EventAction.CREATED, Status.Pending],
+    [EventAction.STARTED, Status.Running],
+    [EventAction.SUCCEEDED, Status.Succeeded],
+    [EventAction.FAILED, Status.Failed],
+    [EventAction.CANCELLED, Status.Failed],
+  ])('should create a signed %s delivery of a valid job', async (action, status) => {
+    const { body, headers } = tester.createDelivery({ action })
+    const event = await sdk.processWebhookRequest(
+      body,
+      testWebhookSecret,
+      headers['webhook-id']!,
+      headers['webhook-timestamp']!,
+      headers['webhook-signature']!,
+    )
+
+    expect(event.action).toBe(action)
+    expect(event.data.status).toBe(status)
+    expect(event.data.events.map((event) => event.action)).toContain(action)
+    if (status === Status.Succeeded) {
+      expect(event.data.output).toMatchObject({ text: 'Hello world. How are you?' })
+    } else if (action === EventAction.FAILED) {
+      expect(event.data.output).toMatchObject({ error: 'The audio file could not be decoded' })
+    } else {
+      expect(event.data.output).toBeUndefined()
+    }
+  })
+
+  it('should apply the given status, job fields and headers', () => {
+    const timestamp = new Date('2025-01-01T00:00:00Z')
+    const { body, headers } = tester.createDelivery({
+      action: EventAction.SUCCEEDED,
+      status: Status.Failed,
+      job: { id: 'job-1', metadata: { customer: 'acme' } },
+      organizationName: 'acme',
+      webhookId: 'msg_42',
+      timestamp,
+    })
+
+    expect(headers).toMatchObject({ 'webhook-id': 'msg_42', 'webhook-timestamp': '1735689600' })
+    expect(JSON.parse(body).data).toMatchObject({
+      id: 'job-1',
+      status: Status.Failed,
+      organization_name: 'acme',
+      metadata: { customer: 'acme' },
+      update_time: timestamp.toISOString(),
+    })
+  })
+
+  it('should create deliveries that verification rejects', () => {
+    const webhook = new Webhook(testWebhookSecret)
+    const verify = (delivery: ReturnType<WebhookTester['createDelivery']>) => () =>
+      webhook.verify(delivery.body, delivery.headers as Record<string, string>)
+
+    expect(verify(tester.createDelivery())).not.toThrow()
+    expect(verify(tester.createInvalidDelivery('expired'))).toThrow('Message timestamp too old')
+    expect(verify(tester.createInvalidDelivery('wrongSignature'))).toThrow('No matching signature found')
+    expect(verify(tester.createInvalidDelivery('missingHeaders'))).toThrow(WebhookVerificationError)
+    expect(tester.createInvalidDelivery('missingHeaders').headers).toEqual({})
+  })
+
+  it('should expire deliveries beyond the tolerance of the handler', () => {
+    const webhook = new Webhook(testWebhookSecret, { toleranceInSeconds: 3600 })
+    const delivery = new WebhookTester(testWebhookSecret, { toleranceInSeconds: 3600 }).createInvalidDelivery('expired')
+
+    expect(() => webhook.verify(delivery.body, delivery.headers as Record<string, string>)).toThrow(
+      'Message timestamp too old',
+    )
+  })
+
+  it('should send deliveries to a local handler', async () => {
+    const onEvent = vi.fn()
+    const server = http.createServer(createWebhookRequestListener({ secret: testWebhookSecret, onEvent }))
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+    const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/webhooks`
+    try {
+      expect((await tester.send(url, tester.createDelivery({ action: EventAction.STARTED }))).status).toBe(204)
+      expect((await tester.send(url, tester.createInvalidDelivery('expired'))).status).toBe(401)
+      expect((await tester.send(url, tester.createInvalidDelivery('wrongSignature'))).status).toBe(401)
+      expect((await tester.send(url, tester.createInvalidDelivery('missingHeaders'))).status).toBe(400)
+      expect((await tester.send(url, tester.sign('{"action":"succeeded","data":{}}'))).status).toBe(400)
+    } finally {
+      await new Promise((resolve) => server.close(resolve))
+    }
+
+    expect(onEvent).toHaveBeenCalledTimes(1)
+    expect(onEvent.mock.calls[0][0]).toMatchObject({ action: EventAction.STARTED, data: { status: Status.Running } })
+  })
+})